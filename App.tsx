@@ -1,123 +1,475 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { DiaryEntry } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DiaryEntry, AppSettings, EntryEnrichment, TimelineView, EntryRevision, EntryDraft } from './types';
 import TimelineEntry from './components/TimelineEntry';
 import EntryModal from './components/EntryModal';
-import { Plus, Search, Sparkles, Settings, Info, X as XIcon, AlertCircle, Loader2 } from 'lucide-react';
-import { generateEntryReflection, generateYearSummary, generateReflectionImage } from './services/geminiService';
+import SettingsPanel from './components/SettingsPanel';
+import LockScreen from './components/LockScreen';
+import FilterBar from './components/FilterBar';
+import CalendarView from './components/CalendarView';
+import HeatmapView from './components/HeatmapView';
+import MapView from './components/MapView';
+import InsightsView from './components/InsightsView';
+import SummaryPanel from './components/SummaryPanel';
+import AskDiaryPanel from './components/AskDiaryPanel';
+import TrashPanel from './components/TrashPanel';
+import UndoToast from './components/UndoToast';
+import RevisionHistory from './components/RevisionHistory';
+import DraftList from './components/DraftList';
+import OnThisDay from './components/OnThisDay';
+import WeeklyDigest from './components/WeeklyDigest';
+import { Plus, Search, Sparkles, Settings, Info, X as XIcon, AlertCircle, Loader2, Lock, LayoutList, CalendarDays, Grid3X3, Map as MapIcon, GitBranch, Trash2, MessageCircle, BarChart3 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { generateEntryReflection, generateReflectionImage, configureAIProvider } from './services/aiService';
+import { configureGeocoder } from './services/locationService';
+import { canSendToAI, configurePrivacy, forgetSentTexts, PRIVATE_ENTRY_MESSAGE } from './services/privacyService';
+import { configurePrompts, getActiveTemplate, templateRef } from './services/templateService';
+import { loadEntries, syncEntries, runAfterPendingWrites, clearStorageCache, markRevision, setRevisionPolicy } from './services/storageService';
+import { isVaultEnabled, unlockVault, lockVault } from './services/vaultService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { buildSearchIndex, searchEntries, getHighlightTerms } from './services/searchService';
+import { toDayKey } from './services/dateUtils';
+import { buildBacklinks, getThreadNames } from './services/linkService';
+import { isTrashed, moveToTrash, purgeExpired, restoreFromTrash } from './services/trashService';
+import { clearDraftCache, deleteDraft, loadDrafts } from './services/draftService';
+import { BackfillStatus, contentHash, enrichContent, isBackfillPending, needsEnrichment, runBackfill, setBackfillPending } from './services/enrichmentService';
 
 const App: React.FC = () => {
   const [entries, setEntries] = useState<DiaryEntry[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<DiaryEntry | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedMoods, setSelectedMoods] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedThread, setSelectedThread] = useState<string | null>(null);
+  const [focusedEntryId, setFocusedEntryId] = useState<string | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<HTMLDivElement>(null);
   const [isReflectingId, setIsReflectingId] = useState<string | null>(null);
-  const [yearSummary, setYearSummary] = useState<string | null>(null);
-  const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
+  const [reflectionErrors, setReflectionErrors] = useState<Record<string, string>>({});
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [isAskOpen, setIsAskOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [undoDeleteId, setUndoDeleteId] = useState<string | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<DiaryEntry | null>(null);
+  const [drafts, setDrafts] = useState<EntryDraft[]>([]);
+  const [modalDraft, setModalDraft] = useState<EntryDraft | null>(null);
+  const [mapFocusId, setMapFocusId] = useState<string | null>(null);
+  const [backfill, setBackfill] = useState<BackfillStatus>({ isRunning: false, progress: null, error: null });
+  const backfillAbort = useRef<AbortController | null>(null);
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
   const [storageError, setStorageError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [vaultState, setVaultState] = useState<'checking' | 'locked' | 'open'>('checking');
+  const [isEncrypted, setIsEncrypted] = useState(false);
 
-  // Initial Load - Safely access localStorage
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem('lifeThreads_entries');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          setEntries(parsed);
-        }
-      }
-    } catch (e) {
-      console.error("Failed to load entries from storage", e);
-    }
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    configureAIProvider(settings.ai);
+  }, [settings.ai]);
+
+  useEffect(() => {
+    configureGeocoder(settings.location);
+  }, [settings.location]);
+
+  useEffect(() => {
+    configurePrompts(settings.prompts);
+  }, [settings.prompts]);
+
+  // Encryption check - an encrypted diary has to be unlocked before anything is read
+  useEffect(() => {
+    isVaultEnabled()
+      .then(enabled => {
+        setIsEncrypted(enabled);
+        setVaultState(enabled ? 'locked' : 'open');
+      })
+      .catch(e => {
+        console.error("Failed to check encryption state", e);
+        setVaultState('open');
+      });
   }, []);
 
-  // Persistent Save
+  // Initial Load - IndexedDB (migrates any legacy localStorage data on first run)
   useEffect(() => {
-    try {
-      const serialized = JSON.stringify(entries);
-      localStorage.setItem('lifeThreads_entries', serialized);
-      setStorageError(null);
-    } catch (e: any) {
-      if (e.name === 'QuotaExceededError') {
-        setStorageError("Storage limit reached. Consider removing some photos.");
-      }
-      console.error("Storage error:", e);
-    }
-  }, [entries]);
+    if (vaultState !== 'open' || isLoaded) return;
+    loadEntries()
+      .then(({ entries, quarantined }) => {
+        setEntries(entries);
+        setQuarantinedCount(quarantined);
+      })
+      .catch(e => {
+        console.error("Failed to load entries from storage", e);
+        setStorageError("Your diary could not be loaded from this browser's storage.");
+      })
+      .finally(() => setIsLoaded(true));
+  }, [vaultState, isLoaded]);
+
+  // Persistent Save - only changed records are written
+  useEffect(() => {
+    if (!isLoaded) return;
+    syncEntries(entries)
+      .then(() => setStorageError(null))
+      .catch((e: any) => {
+        if (e?.name === 'QuotaExceededError') {
+          setStorageError("Storage limit reached. Consider removing some photos.");
+        } else {
+          setStorageError("Some changes could not be saved. They will be retried on your next edit.");
+        }
+        console.error("Storage error:", e);
+      });
+  }, [entries, isLoaded]);
+
+  // Trashed entries past the retention period are dropped on load and when the period changes
+  useEffect(() => {
+    if (!isLoaded) return;
+    setEntries(prev => purgeExpired(prev, settings.trashRetentionDays));
+  }, [isLoaded, settings.trashRetentionDays]);
+
+  const refreshDrafts = () => {
+    loadDrafts()
+      .then(setDrafts)
+      .catch(e => console.error("Failed to load drafts", e));
+  };
+
+  useEffect(() => {
+    if (isLoaded) refreshDrafts();
+  }, [isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setRevisionPolicy(settings.revisions).catch(e => console.error("Failed to prune revision history", e));
+  }, [isLoaded, settings.revisions]);
+
+  const handleUnlock = async (passphrase: string) => {
+    await unlockVault(passphrase);
+    setVaultState('open');
+  };
+
+  const handleLock = async () => {
+    // Let queued writes finish while the key is still available
+    await runAfterPendingWrites(async () => undefined);
+    lockVault();
+    clearStorageCache();
+    clearDraftCache();
+    forgetSentTexts();
+    // Stopped without clearing the pending flag, so it picks up again after unlocking
+    backfillAbort.current?.abort();
+    backfillAbort.current = null;
+    setBackfill({ isRunning: false, progress: null, error: null });
+    setIsLoaded(false);
+    setEntries([]);
+    setReflectionErrors({});
+    setIsModalOpen(false);
+    setIsSettingsOpen(false);
+    setIsSummaryOpen(false);
+    setIsAskOpen(false);
+    setIsTrashOpen(false);
+    setUndoDeleteId(null);
+    setHistoryEntry(null);
+    setDrafts([]);
+    setModalDraft(null);
+    setVaultState('locked');
+  };
+
+  // Auto-lock - any user activity restarts the inactivity timer
+  useEffect(() => {
+    if (!isEncrypted || vaultState !== 'open' || settings.autoLockMinutes <= 0) return;
+    let timer: number | undefined;
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, settings.autoLockMinutes * 60 * 1000);
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, restart, { passive: true }));
+    restart();
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(name => window.removeEventListener(name, restart));
+    };
+  }, [isEncrypted, vaultState, settings.autoLockMinutes]);
+
+  const liveEntries = useMemo(() => entries.filter(e => !isTrashed(e)), [entries]);
+  const trashedEntries = useMemo(() => entries.filter(isTrashed), [entries]);
+
+  // Tags ordered by how often they are used, for autocomplete and the filter bar
+  const knownTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    liveEntries.forEach(e => e.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+  }, [liveEntries]);
+
+  const knownThreads = useMemo(() => getThreadNames(liveEntries), [liveEntries]);
+  const knownPeople = useMemo(() => [...new Set(liveEntries.flatMap(e => e.people || []))], [liveEntries]);
+
+  // People named in the diary are what redaction masks as names
+  useEffect(() => {
+    configurePrivacy(settings.privacy, knownPeople);
+  }, [settings.privacy, knownPeople]);
+  const entryById = useMemo(() => new Map(liveEntries.map(e => [e.id, e])), [liveEntries]);
+  const backlinks = useMemo(() => buildBacklinks(liveEntries), [liveEntries]);
+
+  const usedMoods = useMemo(() => [...new Set(liveEntries.map(e => e.mood).filter((m): m is string => !!m))], [liveEntries]);
+
+  const searchIndex = useMemo(() => buildSearchIndex(liveEntries), [liveEntries]);
+  const highlightTerms = useMemo(() => getHighlightTerms(searchQuery), [searchQuery]);
 
-  const filteredEntries = useMemo(() => {
-    const filtered = entries.filter(e => 
-      e.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      e.date.includes(searchQuery)
+  const matchingEntries = useMemo(() => {
+    // Ranked search results when there is a query, otherwise newest first
+    const candidates = searchQuery.trim()
+      ? searchEntries(searchIndex, searchQuery).map(r => r.entry)
+      : [...liveEntries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    // Moods match any selected mood; tags must all be present on the entry
+    return candidates.filter(e =>
+      (selectedMoods.length === 0 || (!!e.mood && selectedMoods.includes(e.mood))) &&
+      selectedTags.every(tag => e.tags?.includes(tag)) &&
+      (!selectedThread || !!e.threads?.includes(selectedThread))
     );
-    return [...filtered].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [entries, searchQuery]);
+  }, [liveEntries, searchIndex, searchQuery, selectedMoods, selectedTags, selectedThread]);
+
+  // The calendar and heatmap show every match; a picked day narrows the cards below
+  const filteredEntries = useMemo(
+    () => selectedDay ? matchingEntries.filter(e => toDayKey(e.date) === selectedDay) : matchingEntries,
+    [matchingEntries, selectedDay]
+  );
+
+  const isFiltering = !!searchQuery.trim() || selectedMoods.length > 0 || selectedTags.length > 0 || !!selectedDay || !!selectedThread;
+
+  const setTimelineView = (timelineView: TimelineView) => setSettings(prev => ({ ...prev, timelineView }));
+
+  const handleSelectDay = (day: string | null) => {
+    setSelectedDay(day);
+    if (day) requestAnimationFrame(() => timelineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
+  const handleSelectThread = (thread: string | null) => {
+    setSelectedThread(thread);
+    if (thread) requestAnimationFrame(() => timelineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
+  const handleShowOnMap = (id: string) => {
+    setMapFocusId(id);
+    setTimelineView('map');
+    requestAnimationFrame(() => mapRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
+  // Shows the entries behind a chart point as a search, replacing other filters
+  const handleDrillDown = (query: string) => {
+    setSearchQuery(query);
+    setSelectedMoods([]);
+    setSelectedTags([]);
+    setSelectedDay(null);
+    setSelectedThread(null);
+    requestAnimationFrame(() => timelineRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
+  // Jumps to a linked entry, clearing whatever filters would hide it
+  const handleOpenEntry = (id: string) => {
+    const target = entryById.get(id);
+    if (!target) return;
+    if (!filteredEntries.some(e => e.id === id)) {
+      setSearchQuery('');
+      setSelectedMoods([]);
+      setSelectedTags([]);
+      setSelectedDay(null);
+      if (selectedThread && !target.threads?.includes(selectedThread)) setSelectedThread(null);
+    }
+    setFocusedEntryId(id);
+    requestAnimationFrame(() => document.getElementById(`entry-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
+  useEffect(() => {
+    if (!focusedEntryId) return;
+    const timer = window.setTimeout(() => setFocusedEntryId(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [focusedEntryId]);
+
+  const toggleMoodFilter = (mood: string) => {
+    setSelectedMoods(prev => prev.includes(mood) ? prev.filter(m => m !== mood) : [...prev, mood]);
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
 
   const handleAddEntry = () => {
     setEditingEntry(null);
+    setModalDraft(null);
     setIsModalOpen(true);
   };
 
   const handleEditEntry = (entry: DiaryEntry) => {
     setEditingEntry(entry);
+    setModalDraft(null);
+    setIsModalOpen(true);
+  };
+
+  // A draft of an entry that no longer exists is finished as a new entry
+  const handleResumeDraft = (draft: EntryDraft) => {
+    setEditingEntry((draft.entryId && entryById.get(draft.entryId)) || null);
+    setModalDraft(draft);
     setIsModalOpen(true);
   };
 
+  const handleDiscardDraft = (draft: EntryDraft) => {
+    if (!window.confirm("Discard this draft? It cannot be recovered.")) return;
+    deleteDraft(draft.id)
+      .then(refreshDrafts)
+      .catch(e => console.error("Failed to delete draft", e));
+  };
+
+  // Deleting only moves the entry to the trash; the toast offers an immediate undo
   const handleDeleteEntry = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this memory?")) {
-      setEntries(prev => prev.filter(e => e.id !== id));
-    }
+    setEntries(prev => prev.map(e => e.id === id ? moveToTrash(e) : e));
+    setUndoDeleteId(id);
+  };
+
+  const handleRestoreEntry = (id: string) => {
+    setEntries(prev => prev.map(e => e.id === id ? restoreFromTrash(e) : e));
+    if (undoDeleteId === id) setUndoDeleteId(null);
+  };
+
+  const handlePurgeEntries = (ids: string[]) => {
+    setEntries(prev => prev.filter(e => !ids.includes(e.id)));
   };
 
   const handleSaveEntry = (data: Partial<DiaryEntry>) => {
     if (data.id) {
+      markRevision(data.id);
       setEntries(prev => prev.map(e => e.id === data.id ? { ...e, ...data } as DiaryEntry : e));
+      analyzeInBackground({ id: data.id, content: data.content || '', enrichment: data.enrichment, isPrivate: data.isPrivate });
     } else {
+      // Spread first so fields added to the editor later are kept without listing them here
       const newEntry: DiaryEntry = {
+        ...data,
         id: crypto.randomUUID(),
         content: data.content || '',
         date: data.date || new Date().toISOString(),
         images: data.images || [],
-        aiReflection: data.aiReflection,
-        aiImage: data.aiImage
+        deletedAt: undefined,
       };
+      markRevision(newEntry.id);
       setEntries(prev => [newEntry, ...prev]);
+      analyzeInBackground(newEntry);
     }
   };
 
+  // Suggestions for text that has changed since they were made are dropped
+  const applyEnrichment = (id: string, enrichment: EntryEnrichment) => {
+    setEntries(prev => prev.map(e =>
+      e.id === id && contentHash(e.content) === enrichment.contentHash ? { ...e, enrichment } : e
+    ));
+  };
+
+  const analyzeInBackground = (entry: Pick<DiaryEntry, 'id' | 'content' | 'enrichment' | 'isPrivate'>) => {
+    if (!settings.enrichment.analyzeOnSave || !canSendToAI(entry) || !entry.content.trim()) return;
+    if (entry.enrichment?.contentHash === contentHash(entry.content)) return;
+    enrichContent(entry.content, knownTags).then(result => {
+      if (result.status === 'success') applyEnrichment(entry.id, result.value);
+    });
+  };
+
+  const startBackfill = () => {
+    if (backfillAbort.current) return;
+    const controller = new AbortController();
+    backfillAbort.current = controller;
+    setBackfillPending(true);
+    setBackfill({ isRunning: true, progress: null, error: null });
+    runBackfill(liveEntries.filter(needsEnrichment), knownTags, {
+      requestsPerMinute: settings.enrichment.requestsPerMinute,
+      signal: controller.signal,
+      currentEntry: id => {
+        const entry = entriesRef.current.find(e => e.id === id);
+        return entry && needsEnrichment(entry) ? entry : null;
+      },
+      onEnriched: applyEnrichment,
+      onProgress: progress => setBackfill(prev => ({ ...prev, progress })),
+    }).then(outcome => {
+      if (backfillAbort.current !== controller) return;
+      backfillAbort.current = null;
+      if (outcome.status !== 'stopped') setBackfillPending(false);
+      setBackfill(prev => ({ ...prev, isRunning: false, error: outcome.status === 'failed' ? outcome.message : null }));
+    });
+  };
+
+  const stopBackfill = () => {
+    backfillAbort.current?.abort();
+    backfillAbort.current = null;
+    setBackfillPending(false);
+    setBackfill(prev => ({ ...prev, isRunning: false }));
+  };
+
+  // Resume a back-fill that was interrupted by a reload or lock
+  useEffect(() => {
+    if (isLoaded && isBackfillPending()) startBackfill();
+  }, [isLoaded]);
+
+  const handleRestoreRevision = (revision: EntryRevision) => {
+    markRevision(revision.entryId);
+    setEntries(prev => prev.map(e =>
+      e.id === revision.entryId ? { ...revision.entry, id: e.id, deletedAt: e.deletedAt } : e
+    ));
+    setHistoryEntry(null);
+  };
+
   const handleReflect = async (id: string) => {
     const entry = entries.find(e => e.id === id);
     if (!entry || isReflectingId) return;
+    if (!canSendToAI(entry)) {
+      setReflectionErrors(prev => ({ ...prev, [id]: PRIVATE_ENTRY_MESSAGE }));
+      return;
+    }
 
     setIsReflectingId(id);
+    setReflectionErrors(({ [id]: _, ...rest }) => rest);
+    const persona = getActiveTemplate('reflection');
+    const style = getActiveTemplate('image');
     try {
       const [reflection, aiImage] = await Promise.all([
-        generateEntryReflection(entry.content, entry.date),
-        generateReflectionImage(entry.content)
+        generateEntryReflection(entry.content, entry.date, persona),
+        generateReflectionImage(entry.content, entry.date, style)
       ]);
 
+      if (reflection.status !== 'success') {
+        setReflectionErrors(prev => ({ ...prev, [id]: reflection.message }));
+        return;
+      }
+      // A missing image is not worth failing the reflection over
+      const image = aiImage.status === 'success' ? aiImage.value : null;
+
       setEntries(prev => prev.map(e => 
-        e.id === id ? { ...e, aiReflection: reflection, aiImage: aiImage || e.aiImage } : e
+        e.id === id ? {
+          ...e,
+          aiReflection: reflection.value,
+          aiReflectionTemplate: templateRef(persona),
+          aiImage: image || e.aiImage,
+          aiImageTemplate: image ? templateRef(style) : e.aiImageTemplate,
+        } : e
       ));
-    } catch (err) {
-      console.error("AI Reflection failed", err);
     } finally {
       setIsReflectingId(null);
     }
   };
 
-  const handleGenerateYearSummary = async () => {
-    if (entries.length === 0) return;
-    setIsGeneratingSummary(true);
-    try {
-      const summary = await generateYearSummary(entries.map(e => `${e.date}: ${e.content}`));
-      setYearSummary(summary);
-    } catch (err) {
-      console.error("Year summary failed", err);
-    } finally {
-      setIsGeneratingSummary(false);
-    }
-  };
+  if (vaultState === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <Loader2 size={32} className="animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (vaultState === 'locked') {
+    return <LockScreen onUnlock={handleUnlock} />;
+  }
 
   return (
     <div className="min-h-screen pb-24 md:pb-12 bg-slate-50 text-slate-900 selection:bg-indigo-100 overflow-x-hidden font-sans">
@@ -129,6 +481,16 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {quarantinedCount > 0 && (
+        <div className="fixed bottom-8 left-4 z-[90] max-w-sm bg-amber-50 border border-amber-200 p-4 rounded-2xl flex items-start gap-3 shadow-2xl text-amber-800 animate-in slide-in-from-bottom-4">
+          <AlertCircle className="shrink-0 text-amber-500 mt-0.5" size={20} />
+          <p className="text-sm font-semibold">
+            {quarantinedCount === 1 ? "1 memory" : `${quarantinedCount} memories`} could not be read and {quarantinedCount === 1 ? "was" : "were"} set aside safely instead of being loaded.
+          </p>
+          <button onClick={() => setQuarantinedCount(0)} className="ml-auto p-1 hover:bg-amber-100 rounded-full"><XIcon size={16} /></button>
+        </div>
+      )}
+
       <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-b border-slate-200 shadow-sm">
         <div className="max-w-4xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -140,8 +502,21 @@ const App: React.FC = () => {
               <p className="text-[9px] uppercase font-black text-indigo-400 tracking-[0.2em] -mt-0.5">Interconnected Memories</p>
             </div>
           </div>
-          <div className="hidden md:flex items-center gap-4">
-            <button className="w-9 h-9 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 hover:bg-slate-200 transition-colors">
+          <div className="flex items-center gap-4">
+            {isEncrypted && (
+              <button onClick={handleLock} title="Lock diary" className="w-9 h-9 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 hover:bg-slate-200 transition-colors">
+                <Lock size={18} />
+              </button>
+            )}
+            <button onClick={() => setIsTrashOpen(true)} title="Trash" className="relative w-9 h-9 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 hover:bg-slate-200 transition-colors">
+              <Trash2 size={18} />
+              {trashedEntries.length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 bg-rose-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                  {trashedEntries.length}
+                </span>
+              )}
+            </button>
+            <button onClick={() => setIsSettingsOpen(true)} title="Settings" className="w-9 h-9 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 hover:bg-slate-200 transition-colors">
               <Settings size={18} />
             </button>
           </div>
@@ -162,30 +537,24 @@ const App: React.FC = () => {
                 <Plus size={22} strokeWidth={3} /> New Entry
               </button>
               <button 
-                onClick={handleGenerateYearSummary} 
-                disabled={isGeneratingSummary || entries.length === 0} 
+                onClick={() => setIsSummaryOpen(true)} 
+                disabled={liveEntries.length === 0} 
+                className="bg-indigo-500/40 backdrop-blur-lg border border-indigo-300/30 text-white px-8 py-4 rounded-2xl font-bold flex items-center gap-2 hover:bg-indigo-500/60 transition-all disabled:opacity-50"
+              >
+                <Sparkles size={20} /> Summarize the Thread
+              </button>
+              <button 
+                onClick={() => setIsAskOpen(true)} 
+                disabled={liveEntries.length === 0} 
                 className="bg-indigo-500/40 backdrop-blur-lg border border-indigo-300/30 text-white px-8 py-4 rounded-2xl font-bold flex items-center gap-2 hover:bg-indigo-500/60 transition-all disabled:opacity-50"
               >
-                {isGeneratingSummary ? <Loader2 size={20} className="animate-spin" /> : <Sparkles size={20} />} 
-                {isGeneratingSummary ? "Synthesizing..." : "Summarize the Thread"}
+                <MessageCircle size={20} /> Ask My Diary
               </button>
             </div>
           </div>
           <div className="absolute top-[-20%] right-[-10%] w-80 h-80 bg-white/10 rounded-full blur-3xl animate-pulse"></div>
         </div>
 
-        {yearSummary && (
-          <div className="mt-8 bg-white border border-indigo-100 p-8 md:p-10 rounded-[2rem] shadow-sm animate-in fade-in slide-in-from-top-4 relative group">
-            <button onClick={() => setYearSummary(null)} className="absolute top-6 right-6 p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-full">
-              <XIcon size={20} />
-            </button>
-            <div className="flex items-center gap-3 mb-6">
-              <div className="p-2 bg-indigo-50 rounded-lg text-indigo-600"><Sparkles size={24} /></div>
-              <h3 className="text-xl font-black text-slate-800 tracking-tight">The Big Picture</h3>
-            </div>
-            <p className="text-slate-700 leading-relaxed italic text-lg whitespace-pre-wrap font-serif">"{yearSummary}"</p>
-          </div>
-        )}
       </section>
 
       <main className="max-w-3xl mx-auto px-4">
@@ -193,14 +562,118 @@ const App: React.FC = () => {
           <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-500 transition-colors" size={20} />
           <input 
             type="text" 
-            placeholder="Search through your life threads..." 
+            placeholder='Search... try "a phrase", tag:travel, mood:calm, after:2024, has:photo' 
             value={searchQuery} 
             onChange={(e) => setSearchQuery(e.target.value)} 
             className="w-full pl-14 pr-6 py-5 bg-white border border-slate-200 rounded-3xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none shadow-sm transition-all text-lg" 
           />
         </div>
 
-        <div className="relative pb-20">
+        <DraftList
+          drafts={drafts}
+          entryById={entryById}
+          onResume={handleResumeDraft}
+          onDiscard={handleDiscardDraft}
+        />
+
+        {!isFiltering && (
+          <>
+            <OnThisDay entries={liveEntries} onOpenEntry={handleOpenEntry} />
+            <WeeklyDigest entries={liveEntries} onOpenEntry={handleOpenEntry} />
+          </>
+        )}
+
+        <FilterBar
+          moods={usedMoods}
+          tags={knownTags}
+          selectedMoods={selectedMoods}
+          selectedTags={selectedTags}
+          onToggleMood={toggleMoodFilter}
+          onToggleTag={toggleTagFilter}
+          onClear={() => { setSelectedMoods([]); setSelectedTags([]); }}
+        />
+
+        <div className="flex items-center justify-between gap-3 mb-8">
+          <div className="flex bg-white border border-slate-200 rounded-2xl p-1 shadow-sm">
+            {([
+              ['list', LayoutList, 'Timeline'],
+              ['calendar', CalendarDays, 'Calendar'],
+              ['heatmap', Grid3X3, 'Year'],
+              ['map', MapIcon, 'Map'],
+              ['insights', BarChart3, 'Insights'],
+            ] as const).map(([view, Icon, label]) => (
+              <button
+                key={view}
+                onClick={() => setTimelineView(view)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-semibold transition-all ${
+                  settings.timelineView === view ? 'bg-indigo-600 text-white shadow' : 'text-slate-500 hover:bg-slate-50'
+                }`}
+              >
+                <Icon size={16} /> <span className="hidden sm:inline">{label}</span>
+              </button>
+            ))}
+          </div>
+          {knownThreads.length > 0 && (
+            <div className="flex items-center gap-2 ml-auto">
+              <GitBranch size={16} className="text-slate-400" />
+              <select
+                value={selectedThread || ''}
+                onChange={(e) => handleSelectThread(e.target.value || null)}
+                className="px-3 py-1.5 bg-white border border-slate-200 rounded-xl text-sm font-semibold text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500 shadow-sm max-w-[12rem]"
+              >
+                <option value="">All threads</option>
+                {knownThreads.map(thread => <option key={thread} value={thread}>{thread}</option>)}
+              </select>
+            </div>
+          )}
+          {selectedDay && (
+            <button
+              onClick={() => setSelectedDay(null)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-full text-sm font-semibold hover:bg-indigo-100"
+            >
+              {format(parseISO(selectedDay), 'MMMM d, yyyy')} <XIcon size={14} />
+            </button>
+          )}
+        </div>
+
+        {selectedThread && (
+          <div className="mb-8 flex items-center gap-3 bg-indigo-50 border border-indigo-100 rounded-2xl px-5 py-4">
+            <GitBranch size={20} className="text-indigo-600 shrink-0" />
+            <div className="flex-grow min-w-0">
+              <p className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Thread</p>
+              <h3 className="text-lg font-black text-indigo-900 truncate">{selectedThread}</h3>
+            </div>
+            <span className="text-xs font-semibold text-indigo-500 shrink-0">
+              {matchingEntries.length} {matchingEntries.length === 1 ? 'memory' : 'memories'}
+            </span>
+            <button onClick={() => setSelectedThread(null)} className="p-1.5 text-indigo-400 hover:text-indigo-700 hover:bg-indigo-100 rounded-full">
+              <XIcon size={16} />
+            </button>
+          </div>
+        )}
+
+        {settings.timelineView === 'calendar' && (
+          <CalendarView entries={matchingEntries} selectedDay={selectedDay} onSelectDay={handleSelectDay} />
+        )}
+        {settings.timelineView === 'heatmap' && (
+          <HeatmapView entries={matchingEntries} selectedDay={selectedDay} onSelectDay={handleSelectDay} />
+        )}
+        {settings.timelineView === 'map' && (
+          <div ref={mapRef} className="scroll-mt-24">
+            <MapView
+              entries={matchingEntries}
+              showTiles={settings.location.mapTiles}
+              focusEntryId={mapFocusId}
+              onOpenEntry={handleOpenEntry}
+            />
+          </div>
+        )}
+
+        {settings.timelineView === 'insights' && (
+          <InsightsView entries={liveEntries} onDrillDown={handleDrillDown} />
+        )}
+
+        <div ref={timelineRef} className="relative pb-20 scroll-mt-24">
           {filteredEntries.length > 0 ? (
             <div className="space-y-0">
               {filteredEntries.map((entry, idx) => (
@@ -212,9 +685,26 @@ const App: React.FC = () => {
                   onEdit={handleEditEntry} 
                   onReflect={handleReflect} 
                   isReflecting={isReflectingId === entry.id} 
+                  aiError={reflectionErrors[entry.id]}
+                  onTagClick={toggleTagFilter}
+                  onMoodClick={toggleMoodFilter}
+                  highlightTerms={highlightTerms}
+                  linkedEntries={(entry.links || []).map(id => entryById.get(id)).filter((e): e is DiaryEntry => !!e)}
+                  backlinkEntries={(backlinks.get(entry.id) || []).map(id => entryById.get(id)).filter((e): e is DiaryEntry => !!e)}
+                  onThreadClick={handleSelectThread}
+                  onOpenEntry={handleOpenEntry}
+                  onShowHistory={setHistoryEntry}
+                  onPlaceClick={handleShowOnMap}
+                  isFocused={focusedEntryId === entry.id}
                 />
               ))}
             </div>
+          ) : isFiltering && liveEntries.length > 0 ? (
+            <div className="text-center py-20 bg-white rounded-[3rem] border-2 border-dashed border-slate-200 shadow-sm">
+              <Search className="text-slate-300 mx-auto mb-4" size={36} />
+              <h3 className="text-xl font-black text-slate-700 mb-2">No memories match.</h3>
+              <p className="text-slate-400">Try fewer words, or remove a filter.</p>
+            </div>
           ) : (
             <div className="text-center py-32 bg-white rounded-[3rem] border-2 border-dashed border-slate-200 shadow-sm">
               <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -245,7 +735,67 @@ const App: React.FC = () => {
         onClose={() => setIsModalOpen(false)} 
         onSave={handleSaveEntry} 
         initialData={editingEntry} 
+        knownTags={knownTags}
+        knownThreads={knownThreads}
+        entries={liveEntries}
+        draft={modalDraft}
+        onDraftsChange={refreshDrafts}
+        imageSettings={settings.images}
+      />
+
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        entries={entries}
+        onImport={setEntries}
+        settings={settings}
+        onSettingsChange={setSettings}
+        isEncrypted={isEncrypted}
+        onEncryptionChange={setIsEncrypted}
+        backfill={backfill}
+        backfillRemaining={liveEntries.filter(needsEnrichment).length}
+        onStartBackfill={startBackfill}
+        onStopBackfill={stopBackfill}
+      />
+
+      <SummaryPanel
+        isOpen={isSummaryOpen}
+        onClose={() => setIsSummaryOpen(false)}
+        entries={liveEntries}
+        knownTags={knownTags}
+      />
+
+      <AskDiaryPanel
+        isOpen={isAskOpen}
+        onClose={() => setIsAskOpen(false)}
+        entries={liveEntries}
+        onOpenEntry={handleOpenEntry}
+      />
+
+      <TrashPanel
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        entries={trashedEntries}
+        retentionDays={settings.trashRetentionDays}
+        onRestore={handleRestoreEntry}
+        onPurge={handlePurgeEntries}
       />
+
+      <RevisionHistory
+        entry={historyEntry}
+        onClose={() => setHistoryEntry(null)}
+        onRestore={handleRestoreRevision}
+      />
+
+      {/* Keyed by entry, so deleting another one restarts the countdown */}
+      {undoDeleteId && (
+        <UndoToast
+          key={undoDeleteId}
+          message="Memory moved to trash."
+          onUndo={() => handleRestoreEntry(undoDeleteId)}
+          onDismiss={() => setUndoDeleteId(null)}
+        />
+      )}
     </div>
   );
 };
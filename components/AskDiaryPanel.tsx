@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DiaryEntry } from '../types';
+import { X, Send, Loader2, AlertCircle, MessageCircle, Trash2, Lock } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import { ChatTurn } from '../services/aiProvider';
+import { buildEmbeddingIndex } from '../services/embeddingService';
+import { askDiary, splitCitations, DiarySource } from '../services/askService';
+import { canSendToAI } from '../services/privacyService';
+
+interface AskDiaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: DiaryEntry[];
+  onOpenEntry: (id: string) => void;
+}
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  sources?: DiarySource[];
+  isError?: boolean;
+}
+
+const EXAMPLES = [
+  "When did I last feel anxious about work?",
+  "What did I do in Lisbon?",
+  "What made me happiest this year?",
+];
+
+const shortDate = (iso: string) => {
+  const d = new Date(iso);
+  return isValid(d) ? format(d, 'MMM d, yyyy') : 'Undated';
+};
+
+const AskDiaryPanel: React.FC<AskDiaryPanelProps> = ({ isOpen, onClose, entries, onOpenEntry }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Built in the browser whenever the diary changes; only retrieved snippets ever leave it, and never from private entries
+  const index = useMemo(() => isOpen ? buildEmbeddingIndex(entries.filter(canSendToAI)) : null, [isOpen, entries]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isAsking]);
+
+  if (!isOpen) return null;
+
+  const ask = async (text: string) => {
+    const q = text.trim();
+    if (!q || !index || isAsking) return;
+    const history: ChatTurn[] = messages.filter(m => !m.isError).map(m => ({ role: m.role, text: m.text }));
+    setMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'user', text: q }]);
+    setQuestion('');
+    setIsAsking(true);
+    try {
+      const { result, sources } = await askDiary(index, q, history);
+      setMessages(prev => [...prev, result.status === 'success'
+        ? { id: crypto.randomUUID(), role: 'assistant', text: result.value, sources }
+        : { id: crypto.randomUUID(), role: 'assistant', text: result.message, isError: true }]);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const openSource = (source: DiarySource) => {
+    onOpenEntry(source.entryId);
+    onClose();
+  };
+
+  const renderAnswer = (message: ChatMessage) => {
+    const sources = message.sources || [];
+    return splitCitations(message.text, sources.length).map((part, idx) => {
+      if (part.kind === 'text') return <React.Fragment key={idx}>{part.text}</React.Fragment>;
+      const source = sources[part.number - 1];
+      return (
+        <button
+          key={idx}
+          onClick={() => openSource(source)}
+          className="inline-flex items-center mx-0.5 px-1.5 rounded-md bg-indigo-100 text-indigo-700 text-[11px] font-bold align-baseline hover:bg-indigo-200"
+          title={shortDate(source.date)}
+        >
+          {part.number}
+        </button>
+      );
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm overflow-hidden">
+      <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col h-[85vh] animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <MessageCircle size={20} className="text-indigo-600" /> Ask my diary
+          </h2>
+          <div className="flex items-center gap-1">
+            {messages.length > 0 && (
+              <button onClick={() => setMessages([])} disabled={isAsking} className="p-2 hover:bg-slate-200 rounded-full transition-colors disabled:opacity-40" title="Start over">
+                <Trash2 size={18} className="text-slate-500" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+              <X size={20} className="text-slate-600" />
+            </button>
+          </div>
+        </div>
+
+        <div ref={scrollRef} className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-4">
+          {messages.length === 0 && (
+            <div className="text-center py-8">
+              <p className="text-slate-500 font-semibold mb-1">Ask anything about what you've written.</p>
+              <p className="text-xs text-slate-400 mb-6 flex items-center justify-center gap-1.5">
+                <Lock size={12} /> Entries are searched on this device. Only the few passages that match are sent to the AI, never from private entries.
+              </p>
+              <div className="flex flex-col items-center gap-2">
+                {EXAMPLES.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => ask(example)}
+                    className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <p className="max-w-[80%] px-4 py-2.5 bg-indigo-600 text-white rounded-2xl rounded-br-md text-sm whitespace-pre-wrap">{message.text}</p>
+            </div>
+          ) : message.isError ? (
+            <p key={message.id} className="flex items-center gap-2 text-sm text-rose-600 font-semibold">
+              <AlertCircle size={16} className="shrink-0" /> {message.text}
+            </p>
+          ) : (
+            <div key={message.id} className="max-w-[90%]">
+              <div className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl rounded-bl-md text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+                {renderAnswer(message)}
+              </div>
+              {message.sources && message.sources.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {message.sources.map(source => (
+                    <li key={source.number}>
+                      <button
+                        onClick={() => openSource(source)}
+                        className="w-full text-left flex items-baseline gap-2 px-2 py-1 rounded-lg hover:bg-indigo-50 text-xs"
+                      >
+                        <span className="font-bold text-indigo-600 shrink-0">[{source.number}]</span>
+                        <span className="font-semibold text-slate-500 shrink-0">{shortDate(source.date)}</span>
+                        <span className="text-slate-400 truncate">{source.snippet}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {isAsking && (
+            <p className="text-sm text-indigo-600 font-semibold flex items-center gap-2">
+              <Loader2 size={16} className="animate-spin" /> Reading your diary...
+            </p>
+          )}
+        </div>
+
+        <form
+          onSubmit={(e) => { e.preventDefault(); ask(question); }}
+          className="p-4 border-t border-slate-100 flex gap-2"
+        >
+          <input
+            type="text"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask a question about your past entries..."
+            className="flex-grow px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!question.trim() || isAsking}
+            className="px-4 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all disabled:opacity-50"
+            title="Ask"
+          >
+            <Send size={18} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AskDiaryPanel;
@@ -0,0 +1,98 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { groupByDay } from '../services/dateUtils';
+import { getMood } from '../constants';
+
+interface CalendarViewProps {
+  entries: DiaryEntry[];
+  selectedDay: string | null;
+  onSelectDay: (day: string | null) => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const CalendarView: React.FC<CalendarViewProps> = ({ entries, selectedDay, onSelectDay }) => {
+  const [month, setMonth] = useState(() => startOfMonth(selectedDay ? parseISO(selectedDay) : new Date()));
+
+  const byDay = useMemo(() => groupByDay(entries), [entries]);
+
+  const days = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  }), [month]);
+
+  const entriesThisMonth = days
+    .filter(d => isSameMonth(d, month))
+    .reduce((sum, d) => sum + (byDay.get(format(d, 'yyyy-MM-dd'))?.length || 0), 0);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-5 md:p-6 mb-10">
+      <div className="flex items-center justify-between mb-5">
+        <button onClick={() => setMonth(m => addMonths(m, -1))} className="p-2 rounded-full hover:bg-slate-100 text-slate-500">
+          <ChevronLeft size={20} />
+        </button>
+        <div className="text-center">
+          <h3 className="text-lg font-black text-slate-800">{format(month, 'MMMM yyyy')}</h3>
+          <p className="text-xs text-slate-400 font-semibold">{entriesThisMonth} {entriesThisMonth === 1 ? 'memory' : 'memories'}</p>
+        </div>
+        <button onClick={() => setMonth(m => addMonths(m, 1))} className="p-2 rounded-full hover:bg-slate-100 text-slate-500">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1.5 text-center">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 pb-1">{day}</div>
+        ))}
+        {days.map(day => {
+          const key = format(day, 'yyyy-MM-dd');
+          const dayEntries = byDay.get(key) || [];
+          const photo = dayEntries.find(e => e.images?.length > 0)?.images[0];
+          const mood = dayEntries.find(e => e.mood)?.mood;
+          const isSelected = selectedDay === key;
+
+          return (
+            <button
+              key={key}
+              onClick={() => dayEntries.length > 0 && onSelectDay(isSelected ? null : key)}
+              disabled={dayEntries.length === 0}
+              className={`relative aspect-square rounded-xl overflow-hidden text-sm font-semibold transition-all ${
+                isSameMonth(day, month) ? '' : 'opacity-30'
+              } ${
+                isSelected ? 'ring-2 ring-indigo-500 ring-offset-2' : ''
+              } ${
+                dayEntries.length > 0 ? 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100 cursor-pointer' : 'bg-slate-50 text-slate-400 cursor-default'
+              }`}
+            >
+              {photo && <img src={photo} className="absolute inset-0 w-full h-full object-cover opacity-60" />}
+              <span className={`absolute top-1 left-1.5 ${isToday(day) ? 'bg-indigo-600 text-white rounded-full px-1.5' : ''} ${photo ? 'text-white drop-shadow' : ''}`}>
+                {format(day, 'd')}
+              </span>
+              {mood && <span className="absolute bottom-1 left-1.5 text-xs">{getMood(mood).emoji}</span>}
+              {dayEntries.length > 1 && (
+                <span className="absolute bottom-1 right-1.5 text-[10px] font-black bg-white/80 text-indigo-700 rounded-full px-1.5">
+                  {dayEntries.length}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, CameraOff, RefreshCw, Check, RotateCcw, X, Loader2, UploadCloud } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  onChooseFile: () => void; // fallback when there is no usable camera
+}
+
+type Facing = 'user' | 'environment';
+
+function describeCameraError(err: unknown): string {
+  const name = (err as DOMException)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access was blocked. Allow it in your browser to take photos here.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found on this device.";
+  if (name === 'NotReadableError') return "The camera is in use by another app.";
+  return "The camera could not be started.";
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, onChooseFile }) => {
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [isStarting, setIsStarting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shot, setShot] = useState<{ file: File; url: string } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // (Re)start the stream whenever the facing mode changes; tracks are always stopped on the way out
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser cannot use the camera here.");
+      setIsStarting(false);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsStarting(true);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    })
+      .then(async s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          await videoRef.current.play().catch(() => undefined);
+        }
+        // Device labels and counts are only reliable once permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanSwitch(devices.filter(d => d.kind === 'videoinput').length > 1);
+      })
+      .catch(err => {
+        console.error("Camera failed to start", err);
+        if (!cancelled) setError(describeCameraError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [facing]);
+
+  useEffect(() => () => {
+    if (shot) URL.revokeObjectURL(shot.url);
+  }, [shot]);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // The front camera preview is mirrored; the saved photo should match what the user saw
+    if (facing === 'user') {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      const file = new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg', lastModified: Date.now() });
+      setShot({ file, url: URL.createObjectURL(blob) });
+    }, 'image/jpeg', 0.92);
+  };
+
+  const usePhoto = () => {
+    if (!shot) return;
+    onCapture(shot.file);
+    setShot(null);
+  };
+
+  if (error) {
+    return (
+      <div className="mb-4 p-5 bg-slate-50 border border-slate-200 rounded-2xl text-center">
+        <CameraOff size={28} className="mx-auto mb-2 text-slate-300" />
+        <p className="text-sm font-semibold text-slate-600 mb-4">{error}</p>
+        <div className="flex justify-center gap-2">
+          <button onClick={onChooseFile} className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg text-sm font-semibold hover:bg-indigo-100 transition-colors">
+            <UploadCloud size={14} /> Choose a photo instead
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-slate-500 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 relative bg-slate-900 rounded-2xl overflow-hidden">
+      <div className="relative aspect-video flex items-center justify-center">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={`w-full h-full object-contain ${facing === 'user' ? '-scale-x-100' : ''} ${shot ? 'hidden' : ''}`}
+        />
+        {shot && <img src={shot.url} alt="Captured" className="w-full h-full object-contain" />}
+        {isStarting && !shot && <Loader2 size={28} className="absolute animate-spin text-white/70" />}
+      </div>
+
+      <button onClick={onClose} className="absolute top-3 right-3 p-2 bg-black/40 text-white rounded-full hover:bg-black/60 transition-colors" title="Close camera">
+        <X size={16} />
+      </button>
+
+      <div className="flex items-center justify-center gap-3 p-3 bg-slate-900">
+        {shot ? (
+          <>
+            <button onClick={() => setShot(null)} className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white rounded-xl text-sm font-semibold hover:bg-white/20 transition-colors">
+              <RotateCcw size={14} /> Retake
+            </button>
+            <button onClick={usePhoto} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-colors">
+              <Check size={14} /> Use photo
+            </button>
+          </>
+        ) : (
+          <>
+            {canSwitch && (
+              <button
+                onClick={() => setFacing(prev => prev === 'user' ? 'environment' : 'user')}
+                disabled={isStarting}
+                className="p-2.5 bg-white/10 text-white rounded-full hover:bg-white/20 transition-colors disabled:opacity-40"
+                title={facing === 'user' ? 'Use back camera' : 'Use front camera'}
+              >
+                <RefreshCw size={16} />
+              </button>
+            )}
+            <button
+              onClick={takePhoto}
+              disabled={isStarting}
+              className="w-14 h-14 bg-white rounded-full border-4 border-indigo-400 flex items-center justify-center hover:scale-105 transition-transform disabled:opacity-40"
+              title="Take photo"
+            >
+              <Camera size={20} className="text-indigo-600" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { DiaryEntry, EntryDraft } from '../types';
+import { FileClock, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { entryLabel, entrySnippet } from '../services/linkService';
+
+interface DraftListProps {
+  drafts: EntryDraft[];
+  entryById: Map<string, DiaryEntry>;
+  onResume: (draft: EntryDraft) => void;
+  onDiscard: (draft: EntryDraft) => void;
+}
+
+const DraftList: React.FC<DraftListProps> = ({ drafts, entryById, onResume, onDiscard }) => {
+  if (drafts.length === 0) return null;
+
+  return (
+    <section className="mb-8 bg-white border border-amber-100 rounded-3xl p-5 shadow-sm">
+      <h3 className="text-sm font-bold text-amber-700 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <FileClock size={16} /> Unsaved drafts
+      </h3>
+      <ul className="space-y-2">
+        {drafts.map(draft => {
+          const original = draft.entryId ? entryById.get(draft.entryId) : undefined;
+          return (
+            <li key={draft.id} className="flex items-center gap-3 p-3 bg-amber-50/60 border border-amber-100 rounded-2xl">
+              <button onClick={() => onResume(draft)} className="flex-grow min-w-0 text-left">
+                <p className="text-xs font-semibold text-amber-700">
+                  {original ? `Editing ${entryLabel(original)}` : 'New memory'} · {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+                </p>
+                <p className="text-sm text-slate-600 truncate">{entrySnippet(draft.data, 20) || 'Empty draft'}</p>
+              </button>
+              <button
+                onClick={() => onResume(draft)}
+                className="px-3 py-1.5 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700 transition-all shrink-0"
+              >
+                Resume
+              </button>
+              <button onClick={() => onDiscard(draft)} className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg shrink-0" title="Discard draft">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { WandSparkles, Loader2, AlertCircle, Plus, CheckCheck, X, RotateCcw, Hash, Users, Landmark, CalendarHeart, LucideIcon } from 'lucide-react';
+import { getMood } from '../constants';
+import { EntryMetadata } from '../services/enrichmentService';
+
+type ListKind = 'tags' | 'people' | 'places' | 'events';
+
+interface EnrichmentSuggestionsProps {
+  suggestions: EntryMetadata | null; // only what the entry does not have yet
+  isAnalyzing: boolean;
+  error: string | null;
+  hasAnalysis: boolean; // whether the current text has been analyzed
+  canAnalyze: boolean;
+  onAnalyze: () => void;
+  onAcceptMood: (mood: string) => void;
+  onAccept: (kind: ListKind, value: string) => void;
+  onAcceptAll: () => void;
+  onDismiss: () => void;
+}
+
+const GROUPS: { kind: ListKind; label: string; icon: LucideIcon }[] = [
+  { kind: 'tags', label: 'Tags', icon: Hash },
+  { kind: 'people', label: 'People', icon: Users },
+  { kind: 'places', label: 'Places', icon: Landmark },
+  { kind: 'events', label: 'Events', icon: CalendarHeart },
+];
+
+const EnrichmentSuggestions: React.FC<EnrichmentSuggestionsProps> = ({
+  suggestions,
+  isAnalyzing,
+  error,
+  hasAnalysis,
+  canAnalyze,
+  onAnalyze,
+  onAcceptMood,
+  onAccept,
+  onAcceptAll,
+  onDismiss
+}) => {
+  const mood = suggestions?.mood ? getMood(suggestions.mood) : null;
+
+  return (
+    <div className="bg-violet-50/60 border border-violet-100 rounded-2xl p-4">
+      <div className="flex items-center gap-2">
+        <WandSparkles size={14} className="text-violet-600" />
+        <span className="text-xs font-bold text-violet-700 uppercase tracking-tighter flex-grow">Suggestions</span>
+        {suggestions && !isAnalyzing && (
+          <>
+            <button onClick={onAcceptAll} className="flex items-center gap-1 px-2 py-1 bg-violet-600 text-white rounded-lg text-[10px] font-bold hover:bg-violet-700 transition-all">
+              <CheckCheck size={12} /> Accept all
+            </button>
+            <button onClick={onDismiss} className="p-1 text-violet-300 hover:text-violet-600" title="Dismiss suggestions">
+              <X size={14} />
+            </button>
+          </>
+        )}
+        <button
+          onClick={onAnalyze}
+          disabled={isAnalyzing || !canAnalyze}
+          className="flex items-center gap-1 px-2 py-1 text-violet-600 rounded-lg text-[10px] font-bold hover:bg-violet-100 transition-all disabled:opacity-40"
+        >
+          {isAnalyzing ? <Loader2 size={12} className="animate-spin" /> : hasAnalysis ? <RotateCcw size={12} /> : <WandSparkles size={12} />}
+          {isAnalyzing ? 'Reading...' : hasAnalysis ? 'Refresh' : 'Suggest'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+          <AlertCircle size={12} className="shrink-0" /> {error}
+        </p>
+      )}
+
+      {!suggestions && !error && !isAnalyzing && (
+        <p className="mt-2 text-xs text-slate-400">
+          {hasAnalysis ? "Nothing new to suggest for this text." : "Let the AI suggest a mood, tags, and who and what this entry is about."}
+        </p>
+      )}
+
+      {suggestions && (
+        <div className="mt-3 space-y-2">
+          {mood && (
+            <div className="flex items-center gap-2">
+              <span className="w-14 shrink-0 text-[10px] font-bold text-slate-400 uppercase">Mood</span>
+              <button
+                onClick={() => onAcceptMood(mood.value)}
+                className={`flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs font-bold hover:shadow-sm transition-all ${mood.chipClass}`}
+              >
+                <Plus size={10} /> {mood.emoji} {mood.label}
+              </button>
+            </div>
+          )}
+          {GROUPS.filter(g => suggestions[g.kind].length > 0).map(({ kind, label, icon: Icon }) => (
+            <div key={kind} className="flex items-start gap-2">
+              <span className="w-14 shrink-0 pt-1.5 text-[10px] font-bold text-slate-400 uppercase">{label}</span>
+              <div className="flex flex-wrap gap-1.5">
+                {suggestions[kind].map(value => (
+                  <button
+                    key={value}
+                    onClick={() => onAccept(kind, value)}
+                    className="flex items-center gap-1 px-2.5 py-1 bg-white border border-violet-200 text-violet-700 rounded-full text-xs font-bold hover:bg-violet-100 transition-all"
+                  >
+                    <Plus size={10} /> <Icon size={10} /> {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnrichmentSuggestions;
@@ -1,95 +1,275 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { DiaryEntry } from '../types';
-import { X, Image as ImageIcon, Calendar, Save, Trash, UploadCloud, Maximize2, Loader2, Sparkles } from 'lucide-react';
-import { generateEntryReflection, generateReflectionImage } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { DiaryEntry, EntryDraft, EntryEnrichment, EntryLocation, ImageSettings, PhotoInfo, TemplateRef, VoiceNote } from '../types';
+import { X, Image as ImageIcon, Calendar, Save, Trash, UploadCloud, Maximize2, Loader2, Sparkles, Smile, Tag, AlertCircle, RotateCcw, GitBranch, Link2, FileClock, Camera, MapPin, Users, Landmark, CalendarHeart, ShieldOff } from 'lucide-react';
+import { format, formatDistanceToNow, isValid } from 'date-fns';
+import { generateEntryReflection, generateReflectionImage, transcribeVoiceNote } from '../services/aiService';
+import { getImageBlob } from '../services/storageService';
+import { optimizeImage } from '../services/imagePipeline';
+import { contentHash, enrichContent, pendingSuggestions } from '../services/enrichmentService';
+import { PRIVATE_ENTRY_MESSAGE } from '../services/privacyService';
+import { getActiveTemplate, templateRef } from '../services/templateService';
+import { deleteDraft, draftDiffers, draftIdForEntry, getDraft, loadDrafts, newDraftId, saveDraft } from '../services/draftService';
+import MoodPicker from './MoodPicker';
+import TagInput from './TagInput';
+import LinkPicker from './LinkPicker';
+import MarkdownEditor from './MarkdownEditor';
+import CameraCapture from './CameraCapture';
+import VoiceRecorder from './VoiceRecorder';
+import VoiceNoteList from './VoiceNoteList';
+import LocationPicker from './LocationPicker';
+import EnrichmentSuggestions from './EnrichmentSuggestions';
+import { normalizeThread } from '../constants';
 
 interface EntryModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (entry: Partial<DiaryEntry>) => void;
   initialData?: DiaryEntry | null;
+  knownTags: string[];
+  knownThreads: string[];
+  entries: DiaryEntry[]; // for picking linked entries
+  draft?: EntryDraft | null; // a pending draft to continue, picked from the main screen
+  onDraftsChange?: () => void;
+  imageSettings: ImageSettings;
 }
 
-const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initialData }) => {
+const AUTOSAVE_DELAY_MS = 800;
+
+// Value for a datetime-local input, in local time
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  return format(isValid(d) ? d : new Date(), "yyyy-MM-dd'T'HH:mm");
+}
+
+// Entries from before photo details were kept have fewer details than photos
+function alignPhotoInfo(info: (PhotoInfo | null)[], count: number): (PhotoInfo | null)[] {
+  return Array.from({ length: count }, (_, idx) => info[idx] ?? null);
+}
+
+const EntryModal: React.FC<EntryModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  initialData,
+  knownTags,
+  knownThreads,
+  entries,
+  draft,
+  onDraftsChange,
+  imageSettings
+}) => {
   const [content, setContent] = useState('');
-  const [date, setDate] = useState(new Date().toISOString().slice(0, 16));
+  const [date, setDate] = useState(toLocalInput(new Date().toISOString()));
   const [images, setImages] = useState<string[]>([]);
+  const [photoInfo, setPhotoInfo] = useState<(PhotoInfo | null)[]>([]); // kept the same length as images
+  const [mood, setMood] = useState<string | undefined>(undefined);
+  const [tags, setTags] = useState<string[]>([]);
+  const [threads, setThreads] = useState<string[]>([]);
+  const [links, setLinks] = useState<string[]>([]);
+  const [people, setPeople] = useState<string[]>([]);
+  const [places, setPlaces] = useState<string[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [enrichment, setEnrichment] = useState<EntryEnrichment | undefined>(undefined);
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analyzeError, setAnalyzeError] = useState<string | null>(null);
   const [aiReflection, setAiReflection] = useState<string | undefined>(undefined);
   const [aiImage, setAiImage] = useState<string | undefined>(undefined);
+  const [aiReflectionTemplate, setAiReflectionTemplate] = useState<TemplateRef | undefined>(undefined);
+  const [aiImageTemplate, setAiImageTemplate] = useState<TemplateRef | undefined>(undefined);
+  const [voiceNotes, setVoiceNotes] = useState<VoiceNote[]>([]);
+  const [location, setLocation] = useState<EntryLocation | undefined>(undefined);
+  const [photoPosition, setPhotoPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isReflecting, setIsReflecting] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [zoomImage, setZoomImage] = useState<string | null>(null);
+  const [draftId, setDraftId] = useState('');
+  const [offeredDraft, setOfferedDraft] = useState<EntryDraft | null>(null);
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [dateSuggestion, setDateSuggestion] = useState<string | null>(null);
+  const [baseline, setBaseline] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const autosaveTimer = useRef<number | undefined>(undefined);
+  const autosaving = useRef<Promise<void>>(Promise.resolve());
+
+  const fields = (): EntryDraft['data'] => ({
+    content,
+    date: new Date(date).toISOString(),
+    images,
+    photoInfo: photoInfo.some(Boolean) ? photoInfo : undefined,
+    mood,
+    tags,
+    threads,
+    links,
+    people: people.length > 0 ? people : undefined,
+    places: places.length > 0 ? places : undefined,
+    events: events.length > 0 ? events : undefined,
+    enrichment,
+    aiReflection,
+    aiReflectionTemplate: aiReflection ? aiReflectionTemplate : undefined,
+    aiImage,
+    aiImageTemplate: aiImage ? aiImageTemplate : undefined,
+    voiceNotes: voiceNotes.length > 0 ? voiceNotes : undefined,
+    location,
+    isPrivate: isPrivate || undefined,
+  });
+
+  const applyFields = (data: Partial<EntryDraft['data']>) => {
+    setContent(data.content || '');
+    setDate(toLocalInput(data.date || new Date().toISOString()));
+    setImages(data.images || []);
+    setPhotoInfo(alignPhotoInfo(data.photoInfo || [], (data.images || []).length));
+    setMood(data.mood);
+    setTags(data.tags || []);
+    setThreads(data.threads || []);
+    setLinks(data.links || []);
+    setPeople(data.people || []);
+    setPlaces(data.places || []);
+    setEvents(data.events || []);
+    setEnrichment(data.enrichment);
+    setAiReflection(data.aiReflection);
+    setAiImage(data.aiImage);
+    setAiReflectionTemplate(data.aiReflectionTemplate);
+    setAiImageTemplate(data.aiImageTemplate);
+    setVoiceNotes(data.voiceNotes || []);
+    setLocation(data.location);
+    setIsPrivate(!!data.isPrivate);
+  };
+
+  // Everything the user can change, for telling whether there is unsaved work
+  const snapshot = useMemo(
+    () => JSON.stringify([content, date, images, mood, tags, threads, links, people, places, events, aiReflection, aiImage, voiceNotes, location, isPrivate]),
+    [content, date, images, mood, tags, threads, links, people, places, events, aiReflection, aiImage, voiceNotes, location, isPrivate]
+  );
+  const isDirty = !!baseline && snapshot !== baseline;
 
   useEffect(() => {
+    if (!isOpen) return;
+    const start = { ...initialData, date: initialData?.date || new Date().toISOString() };
+    applyFields(start);
+    setBaseline(JSON.stringify([
+      start.content || '', toLocalInput(start.date), start.images || [], start.mood,
+      start.tags || [], start.threads || [], start.links || [], start.people || [], start.places || [], start.events || [],
+      start.aiReflection, start.aiImage, start.voiceNotes || [],
+      start.location, !!start.isPrivate,
+    ]));
+    setAiError(null);
+    setVoiceError(null);
+    setAnalyzeError(null);
+    setIsConfirmingClose(false);
+    setIsCameraOpen(false);
+    setDateSuggestion(null);
+    setPhotoPosition(null);
+    setOfferedDraft(null);
+
+    if (draft) {
+      // Picked from the drafts list, so continue it straight away
+      applyFields(draft.data);
+      setDraftId(draft.id);
+      return;
+    }
+
+    let cancelled = false;
     if (initialData) {
-      setContent(initialData.content);
-      setDate(new Date(initialData.date).toISOString().slice(0, 16));
-      setImages(initialData.images || []);
-      setAiReflection(initialData.aiReflection);
-      setAiImage(initialData.aiImage);
+      const id = draftIdForEntry(initialData.id);
+      setDraftId(id);
+      getDraft(id)
+        .then(existing => {
+          if (cancelled || !existing) return;
+          if (draftDiffers(existing, initialData)) setOfferedDraft(existing);
+          else deleteDraft(id).then(onDraftsChange).catch(err => console.error("Failed to delete draft", err));
+        })
+        .catch(err => console.error("Failed to read draft", err));
     } else {
-      setContent('');
-      setDate(new Date().toISOString().slice(0, 16));
-      setImages([]);
-      setAiReflection(undefined);
-      setAiImage(undefined);
+      setDraftId(newDraftId());
+      loadDrafts()
+        .then(drafts => {
+          const latest = drafts.find(d => !d.entryId);
+          if (!cancelled && latest) setOfferedDraft(latest);
+        })
+        .catch(err => console.error("Failed to read drafts", err));
+    }
+    return () => { cancelled = true; };
+  }, [initialData, isOpen, draft]);
+
+  // Autosave shortly after the user stops typing; held back while a draft is being offered
+  useEffect(() => {
+    if (!isOpen || !isDirty || !draftId || offeredDraft) return;
+    autosaveTimer.current = window.setTimeout(() => {
+      autosaving.current = saveDraft(draftId, fields(), initialData?.id)
+        .then(() => onDraftsChange?.())
+        .catch(err => console.error("Failed to autosave draft", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(autosaveTimer.current);
+  }, [snapshot, isDirty, draftId, offeredDraft, isOpen]);
+
+  // Stops a pending autosave and waits for one already writing, so it cannot
+  // bring back a draft that is about to be replaced or deleted
+  const settleAutosave = () => {
+    window.clearTimeout(autosaveTimer.current);
+    return autosaving.current;
+  };
+
+  const resumeDraft = () => {
+    if (!offeredDraft) return;
+    applyFields(offeredDraft.data);
+    setDraftId(offeredDraft.id);
+    setOfferedDraft(null);
+  };
+
+  const discardOfferedDraft = () => {
+    if (!offeredDraft) return;
+    deleteDraft(offeredDraft.id).then(onDraftsChange).catch(err => console.error("Failed to delete draft", err));
+    setOfferedDraft(null);
+  };
+
+  const requestClose = () => {
+    if (isDirty) setIsConfirmingClose(true);
+    else onClose();
+  };
+
+  const keepDraftAndClose = async () => {
+    await settleAutosave();
+    try {
+      await saveDraft(draftId, fields(), initialData?.id);
+    } catch (err) {
+      console.error("Failed to save draft", err);
     }
-  }, [initialData, isOpen]);
-
-  // CRITICAL: Optimizes images to prevent localStorage QuotaExceededError (the "blank screen" issue)
-  const optimizeImage = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = (event) => {
-        const img = new Image();
-        img.src = event.target?.result as string;
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const MAX_WIDTH = 1000; // Limit resolution for storage
-          const MAX_HEIGHT = 1000;
-          let width = img.width;
-          let height = img.height;
-
-          if (width > height) {
-            if (width > MAX_WIDTH) {
-              height *= MAX_WIDTH / width;
-              width = MAX_WIDTH;
-            }
-          } else {
-            if (height > MAX_HEIGHT) {
-              width *= MAX_HEIGHT / height;
-              height = MAX_HEIGHT;
-            }
-          }
-
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          // Use JPEG compression (0.7 quality) to drastically reduce byte size
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-          resolve(dataUrl);
-        };
-        img.onerror = reject;
-      };
-      reader.onerror = reject;
-    });
+    onDraftsChange?.();
+    onClose();
+  };
+
+  const discardAndClose = async () => {
+    await settleAutosave();
+    await deleteDraft(draftId).catch(err => console.error("Failed to delete draft", err));
+    onDraftsChange?.();
+    onClose();
   };
 
-  const processFiles = async (files: FileList) => {
+  // Photos are resized and re-encoded off the main thread before they are kept, to bound storage use
+  const processFiles = async (files: FileList | File[]) => {
     setIsProcessing(true);
     try {
-      const optimizedImages = await Promise.all(
+      const processed = await Promise.all(
         Array.from(files)
           .filter(file => file.type.startsWith('image/'))
-          .map(file => optimizeImage(file))
+          .map(file => optimizeImage(file, imageSettings))
       );
-      setImages(prev => [...prev, ...optimizedImages]);
+      setImages(prev => [...prev, ...processed.map(p => p.dataUrl)]);
+      setPhotoInfo(prev => [...prev, ...processed.map(p => p.info)]);
+
+      // Photos taken on another day than the entry's suggest moving the entry there
+      const taken = processed.map(p => p.info.takenAt).filter((t): t is string => !!t).sort()[0];
+      if (taken && toLocalInput(taken).slice(0, 10) !== date.slice(0, 10)) setDateSuggestion(taken);
+      // Likewise their GPS position suggests where the entry happened
+      const position = processed.find(p => p.location)?.location;
+      if (position) setPhotoPosition(position);
     } catch (error) {
       console.error("Image processing failed:", error);
       alert("Error processing images. They might be too large.");
@@ -103,32 +283,100 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
       alert("Please write something first so the AI can reflect on it!");
       return;
     }
+    if (isPrivate) {
+      setAiError(PRIVATE_ENTRY_MESSAGE);
+      return;
+    }
     setIsReflecting(true);
+    setAiError(null);
+    const persona = getActiveTemplate('reflection');
+    const style = getActiveTemplate('image');
     try {
       // Parallel execution for best performance
       const [reflection, image] = await Promise.all([
-        generateEntryReflection(content, date),
-        generateReflectionImage(content)
+        generateEntryReflection(content, date, persona),
+        generateReflectionImage(content, date, style)
       ]);
-      setAiReflection(reflection);
-      setAiImage(image || undefined);
-    } catch (error) {
-      console.error("AI Generation error:", error);
+      if (reflection.status !== 'success') {
+        setAiError(reflection.message);
+        return;
+      }
+      setAiReflection(reflection.value);
+      setAiReflectionTemplate(templateRef(persona));
+      // A missing image keeps the previous one, as on the timeline
+      if (image.status === 'success' && image.value) {
+        setAiImage(image.value);
+        setAiImageTemplate(templateRef(style));
+      }
     } finally {
       setIsReflecting(false);
     }
   };
 
+  // The transcript is kept on the note and added to the text, below anything already written
+  const handleTranscribe = async (note: VoiceNote) => {
+    setTranscribingId(note.id);
+    setVoiceError(null);
+    try {
+      const result = await transcribeVoiceNote(await getImageBlob(note.url));
+      if (result.status !== 'success') {
+        setVoiceError(result.message);
+      } else if (result.value === null) {
+        setVoiceError("The current AI provider can't transcribe audio. Pick another one in Settings.");
+      } else {
+        const transcript = result.value;
+        setVoiceNotes(prev => prev.map(n => n.id === note.id ? { ...n, transcript } : n));
+        setContent(prev => prev.trim() ? `${prev.trimEnd()}\n\n${transcript}` : transcript);
+      }
+    } catch (err) {
+      console.error("Transcription failed", err);
+      setVoiceError("The recording could not be read.");
+    } finally {
+      setTranscribingId(null);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setAnalyzeError(null);
+    try {
+      const result = await enrichContent(content, knownTags);
+      if (result.status !== 'success') setAnalyzeError(result.message);
+      else setEnrichment(result.value);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Names used in other entries, for autocomplete
+  const knownNames = useMemo(() => {
+    const collect = (key: 'people' | 'places' | 'events') => [...new Set(entries.flatMap(e => e[key] || []))].sort((a, b) => a.localeCompare(b));
+    return { people: collect('people'), places: collect('places'), events: collect('events') };
+  }, [entries]);
+
+  const suggestions = useMemo(
+    () => pendingSuggestions(enrichment, { mood, tags, people, places, events }),
+    [enrichment, mood, tags, people, places, events]
+  );
+
+  const acceptSuggestion = (kind: 'tags' | 'people' | 'places' | 'events', value: string) => {
+    const setters = { tags: setTags, people: setPeople, places: setPlaces, events: setEvents };
+    setters[kind](prev => prev.includes(value) ? prev : [...prev, value]);
+  };
+
+  const acceptAllSuggestions = () => {
+    if (!suggestions) return;
+    if (suggestions.mood) setMood(suggestions.mood);
+    (['tags', 'people', 'places', 'events'] as const).forEach(kind => suggestions[kind].forEach(value => acceptSuggestion(kind, value)));
+  };
+
   const handleSave = () => {
-    if (!content.trim() || isProcessing || isReflecting) return;
-    onSave({
-      id: initialData?.id,
-      content,
-      date: new Date(date).toISOString(),
-      images,
-      aiReflection,
-      aiImage
-    });
+    if (!content.trim() || isProcessing || isReflecting || transcribingId) return;
+    onSave({ id: initialData?.id, ...fields() });
+    settleAutosave()
+      .then(() => deleteDraft(draftId))
+      .then(onDraftsChange)
+      .catch(err => console.error("Failed to delete draft", err));
     onClose();
   };
 
@@ -141,11 +389,41 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
           <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
             {initialData ? 'Edit Memory' : 'New Memory'}
           </h2>
-          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+          <button onClick={requestClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
             <X size={20} className="text-slate-600" />
           </button>
         </div>
 
+        {isConfirmingClose && (
+          <div className="px-6 py-4 bg-amber-50 border-b border-amber-100 flex flex-wrap items-center gap-3">
+            <p className="text-sm font-semibold text-amber-800 flex-grow">You have unsaved changes.</p>
+            <button onClick={keepDraftAndClose} className="px-3 py-1.5 bg-white border border-amber-200 text-amber-800 rounded-xl text-xs font-bold hover:bg-amber-100 transition-all">
+              Keep as draft
+            </button>
+            <button onClick={discardAndClose} className="px-3 py-1.5 text-rose-600 rounded-xl text-xs font-bold hover:bg-rose-50 transition-all">
+              Discard
+            </button>
+            <button onClick={() => setIsConfirmingClose(false)} className="px-3 py-1.5 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700 transition-all">
+              Keep editing
+            </button>
+          </div>
+        )}
+
+        {offeredDraft && (
+          <div className="px-6 py-4 bg-indigo-50 border-b border-indigo-100 flex flex-wrap items-center gap-3">
+            <FileClock size={18} className="text-indigo-500 shrink-0" />
+            <p className="text-sm text-indigo-900 flex-grow">
+              <span className="font-semibold">Unsaved draft</span> from {formatDistanceToNow(new Date(offeredDraft.updatedAt), { addSuffix: true })}
+            </p>
+            <button onClick={resumeDraft} className="px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all">
+              Resume
+            </button>
+            <button onClick={discardOfferedDraft} className="px-3 py-1.5 text-slate-500 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-all">
+              Discard
+            </button>
+          </div>
+        )}
+
         <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-6">
           {/* Date Picker */}
           <div>
@@ -158,6 +436,36 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
               onChange={(e) => setDate(e.target.value)}
               className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
             />
+            {dateSuggestion && (
+              <div className="mt-2 flex items-center gap-2 px-3 py-2 bg-indigo-50 border border-indigo-100 rounded-xl">
+                <ImageIcon size={14} className="text-indigo-500 shrink-0" />
+                <p className="text-xs text-indigo-900 flex-grow">
+                  Your photos were taken on <span className="font-semibold">{format(new Date(dateSuggestion), "MMM d, yyyy 'at' HH:mm")}</span>
+                </p>
+                <button
+                  onClick={() => { setDate(toLocalInput(dateSuggestion)); setDateSuggestion(null); }}
+                  className="px-2.5 py-1 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all"
+                >
+                  Use this date
+                </button>
+                <button onClick={() => setDateSuggestion(null)} className="p-1 text-indigo-300 hover:text-indigo-600">
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Place */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-500 mb-2 flex items-center gap-2">
+              <MapPin size={14} /> Place
+            </label>
+            <LocationPicker
+              value={location}
+              onChange={setLocation}
+              photoPosition={photoPosition}
+              onDismissPhotoPosition={() => setPhotoPosition(null)}
+            />
           </div>
 
           {/* Text Input */}
@@ -166,19 +474,106 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
               <label className="block text-sm font-semibold text-slate-500">Thoughts</label>
               <button 
                 onClick={handleReflect}
-                disabled={isReflecting || !content.trim()}
+                disabled={isReflecting || !content.trim() || isPrivate}
+                title={isPrivate ? "Private entries are never sent to the AI" : undefined}
                 className="text-xs font-bold text-indigo-600 flex items-center gap-1.5 hover:bg-indigo-50 px-2 py-1 rounded-md transition-all disabled:opacity-40"
               >
                 {isReflecting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} 
                 Reflect with AI
               </button>
             </div>
-            <textarea 
-              autoFocus
+            <MarkdownEditor
               value={content}
-              onChange={(e) => setContent(e.target.value)}
+              onChange={setContent}
               placeholder="What's happening in your life? All moments are worth keeping..."
-              className="w-full h-32 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all resize-none text-slate-700"
+            />
+          </div>
+
+          {/* Mood & Tags */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-500 mb-2 flex items-center gap-2">
+              <Smile size={14} /> Mood
+            </label>
+            <MoodPicker value={mood} onChange={setMood} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-500 mb-2 flex items-center gap-2">
+              <Tag size={14} /> Tags
+            </label>
+            <TagInput tags={tags} onChange={setTags} suggestions={knownTags} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-500 mb-2 flex items-center gap-2">
+              <GitBranch size={14} /> Threads
+            </label>
+            <TagInput
+              tags={threads}
+              onChange={setThreads}
+              suggestions={knownThreads}
+              normalize={normalizeThread}
+              prefix=""
+              icon={GitBranch}
+              placeholder='Add to a thread, e.g. "Job search 2025"'
+            />
+          </div>
+
+          <div className="space-y-3">
+            <label className="block text-sm font-semibold text-slate-500 flex items-center gap-2">
+              <Users size={14} /> People, places & events
+            </label>
+            <TagInput
+              tags={people}
+              onChange={setPeople}
+              suggestions={knownNames.people}
+              normalize={normalizeThread}
+              prefix=""
+              icon={Users}
+              placeholder="Who was there?"
+            />
+            <TagInput
+              tags={places}
+              onChange={setPlaces}
+              suggestions={knownNames.places}
+              normalize={normalizeThread}
+              prefix=""
+              icon={Landmark}
+              placeholder='Places mentioned, e.g. "The lake house"'
+            />
+            <TagInput
+              tags={events}
+              onChange={setEvents}
+              suggestions={knownNames.events}
+              normalize={normalizeThread}
+              prefix=""
+              icon={CalendarHeart}
+              placeholder='Events, e.g. "Graduation day"'
+            />
+          </div>
+
+          <EnrichmentSuggestions
+            suggestions={suggestions}
+            isAnalyzing={isAnalyzing}
+            error={analyzeError}
+            hasAnalysis={enrichment?.contentHash === contentHash(content)}
+            canAnalyze={!!content.trim() && !isPrivate}
+            onAnalyze={handleAnalyze}
+            onAcceptMood={setMood}
+            onAccept={acceptSuggestion}
+            onAcceptAll={acceptAllSuggestions}
+            onDismiss={() => setEnrichment(prev => prev && { ...prev, dismissed: true })}
+          />
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-500 mb-2 flex items-center gap-2">
+              <Link2 size={14} /> Linked memories
+            </label>
+            <LinkPicker
+              entry={{ id: initialData?.id || '', content, tags, threads, isPrivate }}
+              links={links}
+              onChange={setLinks}
+              entries={entries}
             />
           </div>
 
@@ -186,17 +581,39 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
           <div>
             <div className="flex justify-between items-center mb-4">
               <label className="text-sm font-semibold text-slate-500">Your Photos</label>
-              <button 
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isProcessing}
-                className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg text-sm font-semibold hover:bg-indigo-100 transition-colors disabled:opacity-50"
-              >
-                {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <UploadCloud size={14} />} 
-                {isProcessing ? 'Optimizing...' : 'Add Photos'}
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsCameraOpen(prev => !prev)}
+                  disabled={isProcessing}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${
+                    isCameraOpen ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+                  }`}
+                >
+                  <Camera size={14} /> Camera
+                </button>
+                <button 
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isProcessing}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg text-sm font-semibold hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                >
+                  {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <UploadCloud size={14} />} 
+                  {isProcessing ? 'Optimizing...' : 'Add Photos'}
+                </button>
+              </div>
               <input type="file" ref={fileInputRef} multiple accept="image/*" onChange={(e) => e.target.files && processFiles(e.target.files)} className="hidden" />
             </div>
 
+            {isCameraOpen && (
+              <CameraCapture
+                onCapture={(file) => processFiles([file])}
+                onClose={() => setIsCameraOpen(false)}
+                onChooseFile={() => {
+                  setIsCameraOpen(false);
+                  fileInputRef.current?.click();
+                }}
+              />
+            )}
+
             <div 
               onDragEnter={(e) => { e.preventDefault(); setDragActive(true); }}
               onDragLeave={(e) => { e.preventDefault(); setDragActive(false); }}
@@ -221,7 +638,11 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
                     <div key={idx} className="relative aspect-square group">
                       <img src={img} className="w-full h-full object-cover rounded-xl border border-slate-200 cursor-pointer" onClick={() => setZoomImage(img)} />
                       <button 
-                        onClick={(e) => { e.stopPropagation(); setImages(prev => prev.filter((_, i) => i !== idx)); }} 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setImages(prev => prev.filter((_, i) => i !== idx));
+                          setPhotoInfo(prev => prev.filter((_, i) => i !== idx));
+                        }} 
                         className="absolute -top-1 -right-1 p-1 bg-rose-500 text-white rounded-full shadow-lg hover:scale-110 transition-transform"
                       >
                         <X size={10} />
@@ -233,12 +654,34 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
             </div>
           </div>
 
+          {/* Voice Notes */}
+          <div>
+            <div className="flex justify-between items-center mb-3">
+              <label className="text-sm font-semibold text-slate-500">Voice Notes</label>
+              <VoiceRecorder onRecorded={(note) => setVoiceNotes(prev => [...prev, note])} disabled={!!transcribingId} />
+            </div>
+            <VoiceNoteList
+              notes={voiceNotes}
+              onRemove={(id) => setVoiceNotes(prev => prev.filter(n => n.id !== id))}
+              onTranscribe={isPrivate ? undefined : handleTranscribe}
+              transcribingId={transcribingId}
+            />
+            {voiceError && (
+              <p className="mt-2 text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+                <AlertCircle size={12} /> {voiceError}
+              </p>
+            )}
+          </div>
+
           {/* AI Preview Area */}
-          {(aiReflection || aiImage || isReflecting) && (
+          {(aiReflection || aiImage || isReflecting || aiError) && (
             <div className="bg-gradient-to-br from-indigo-50 to-violet-100 border border-indigo-200 rounded-2xl p-5 relative overflow-hidden shadow-inner">
               <div className="flex items-center gap-2 mb-3">
                 <Sparkles size={14} className="text-indigo-600" />
                 <span className="text-xs font-bold text-indigo-700 uppercase tracking-tighter">AI Visual Insight</span>
+                {aiReflectionTemplate && aiReflection && !isReflecting && (
+                  <span className="text-[10px] font-semibold text-indigo-400" title="Reflection persona">{aiReflectionTemplate.name}</span>
+                )}
                 {aiReflection && !isReflecting && (
                   <button onClick={() => {setAiReflection(undefined); setAiImage(undefined)}} className="ml-auto text-slate-400 hover:text-slate-600">
                     <X size={14} />
@@ -254,11 +697,24 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {aiError && (
+                    <div className="flex items-center gap-3 bg-white/70 border border-rose-100 rounded-xl px-3 py-2 text-rose-700">
+                      <AlertCircle size={14} className="shrink-0" />
+                      <p className="text-xs font-medium flex-1">{aiError}</p>
+                      <button
+                        type="button"
+                        onClick={handleReflect}
+                        className="flex items-center gap-1 px-2 py-1 bg-white border border-rose-200 rounded-lg text-[10px] font-bold hover:bg-rose-50 transition-all"
+                      >
+                        <RotateCcw size={10} /> Retry
+                      </button>
+                    </div>
+                  )}
                   {aiReflection && <p className="text-sm text-indigo-900 italic leading-relaxed font-medium">"{aiReflection}"</p>}
                   {aiImage && (
                     <div className="relative group">
                       <img src={aiImage} alt="AI Vision" className="w-full h-auto rounded-xl shadow-md border border-white cursor-zoom-in transition-transform hover:scale-[1.01]" onClick={() => setZoomImage(aiImage)} />
-                      <div className="absolute bottom-2 right-2 bg-indigo-600/20 backdrop-blur-md px-2 py-0.5 rounded text-[8px] text-indigo-800 font-black uppercase">Generated Dream</div>
+                      <div className="absolute bottom-2 right-2 bg-indigo-600/20 backdrop-blur-md px-2 py-0.5 rounded text-[8px] text-indigo-800 font-black uppercase">{aiImageTemplate?.name || "Generated Dream"}</div>
                     </div>
                   )}
                 </div>
@@ -267,10 +723,19 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, onSave, initia
           )}
         </div>
 
-        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex gap-3">
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 cursor-pointer shrink-0" title="Never sent to the AI: no reflections, suggestions, summaries or answers use it">
+            <input
+              type="checkbox"
+              checked={isPrivate}
+              onChange={(e) => setIsPrivate(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            <ShieldOff size={14} /> Private
+          </label>
           <button 
             onClick={handleSave}
-            disabled={!content.trim() || isProcessing || isReflecting}
+            disabled={!content.trim() || isProcessing || isReflecting || !!transcribingId}
             className="flex-grow flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg active:scale-[0.98]"
           >
             <Save size={18} /> {initialData ? 'Update Memory' : 'Save to My Thread'}
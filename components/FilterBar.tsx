@@ -0,0 +1,69 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { getMood } from '../constants';
+
+interface FilterBarProps {
+  moods: string[]; // moods present in the diary
+  tags: string[]; // tags present in the diary, most used first
+  selectedMoods: string[];
+  selectedTags: string[];
+  onToggleMood: (mood: string) => void;
+  onToggleTag: (tag: string) => void;
+  onClear: () => void;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({
+  moods,
+  tags,
+  selectedMoods,
+  selectedTags,
+  onToggleMood,
+  onToggleTag,
+  onClear
+}) => {
+  if (moods.length === 0 && tags.length === 0) return null;
+
+  const hasSelection = selectedMoods.length > 0 || selectedTags.length > 0;
+
+  return (
+    <div className="mb-10 -mt-6 flex flex-wrap items-center gap-2">
+      <Filter size={14} className="text-slate-400 mr-1" />
+      {moods.map(value => {
+        const mood = getMood(value);
+        const isSelected = selectedMoods.includes(value);
+        return (
+          <button
+            key={value}
+            onClick={() => onToggleMood(value)}
+            className={`px-3 py-1 rounded-full border text-xs font-semibold flex items-center gap-1 transition-all ${
+              isSelected ? `${mood.chipClass} ring-2 ring-indigo-500/30` : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <span>{mood.emoji}</span> {mood.label}
+          </button>
+        );
+      })}
+      {tags.map(tag => {
+        const isSelected = selectedTags.includes(tag);
+        return (
+          <button
+            key={tag}
+            onClick={() => onToggleTag(tag)}
+            className={`px-3 py-1 rounded-full border text-xs font-semibold transition-all ${
+              isSelected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300 hover:text-indigo-600'
+            }`}
+          >
+            #{tag}
+          </button>
+        );
+      })}
+      {hasSelection && (
+        <button onClick={onClear} className="px-2 py-1 text-xs font-semibold text-slate-400 hover:text-slate-600 flex items-center gap-1">
+          <X size={12} /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
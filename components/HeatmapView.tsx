@@ -0,0 +1,94 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { eachDayOfInterval, endOfYear, format, startOfWeek, startOfYear, differenceInCalendarDays, parseISO } from 'date-fns';
+import { groupByDay } from '../services/dateUtils';
+
+interface HeatmapViewProps {
+  entries: DiaryEntry[];
+  selectedDay: string | null;
+  onSelectDay: (day: string | null) => void;
+}
+
+const LEVEL_CLASSES = ['bg-slate-100', 'bg-indigo-200', 'bg-indigo-400', 'bg-indigo-600'];
+
+const levelFor = (count: number) => Math.min(count, LEVEL_CLASSES.length - 1);
+
+const HeatmapView: React.FC<HeatmapViewProps> = ({ entries, selectedDay, onSelectDay }) => {
+  const [year, setYear] = useState(() => (selectedDay ? parseISO(selectedDay) : new Date()).getFullYear());
+
+  const byDay = useMemo(() => groupByDay(entries), [entries]);
+
+  // Columns are weeks (Monday first), rows are weekdays, like a contribution graph
+  const weeks = useMemo(() => {
+    const first = startOfYear(new Date(year, 0, 1));
+    const days = eachDayOfInterval({ start: startOfWeek(first, { weekStartsOn: 1 }), end: endOfYear(first) });
+    const columns: Date[][] = [];
+    days.forEach((day, idx) => {
+      if (idx % 7 === 0) columns.push([]);
+      columns[columns.length - 1].push(day);
+    });
+    return columns;
+  }, [year]);
+
+  const stats = useMemo(() => {
+    const keys = [...byDay.keys()].filter(k => k.startsWith(`${year}-`)).sort();
+    let longestGap = 0;
+    for (let i = 1; i < keys.length; i++) {
+      longestGap = Math.max(longestGap, differenceInCalendarDays(parseISO(keys[i]), parseISO(keys[i - 1])) - 1);
+    }
+    return { activeDays: keys.length, longestGap };
+  }, [byDay, year]);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-5 md:p-6 mb-10">
+      <div className="flex items-center justify-between mb-5">
+        <button onClick={() => setYear(y => y - 1)} className="p-2 rounded-full hover:bg-slate-100 text-slate-500">
+          <ChevronLeft size={20} />
+        </button>
+        <div className="text-center">
+          <h3 className="text-lg font-black text-slate-800">{year}</h3>
+          <p className="text-xs text-slate-400 font-semibold">
+            {stats.activeDays} days written{stats.activeDays > 1 ? ` · longest gap ${stats.longestGap} days` : ''}
+          </p>
+        </div>
+        <button onClick={() => setYear(y => y + 1)} className="p-2 rounded-full hover:bg-slate-100 text-slate-500">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar pb-2">
+        <div className="flex gap-[3px] min-w-max">
+          {weeks.map((week, wIdx) => (
+            <div key={wIdx} className="flex flex-col gap-[3px]">
+              {week.map(day => {
+                const key = format(day, 'yyyy-MM-dd');
+                const inYear = day.getFullYear() === year;
+                const count = byDay.get(key)?.length || 0;
+                return (
+                  <button
+                    key={key}
+                    title={`${format(day, 'EEE, MMM d, yyyy')}: ${count} ${count === 1 ? 'memory' : 'memories'}`}
+                    onClick={() => count > 0 && onSelectDay(selectedDay === key ? null : key)}
+                    disabled={!inYear || count === 0}
+                    className={`w-3 h-3 rounded-[3px] ${inYear ? LEVEL_CLASSES[levelFor(count)] : 'bg-transparent'} ${
+                      selectedDay === key ? 'ring-2 ring-amber-400' : ''
+                    } ${count > 0 ? 'cursor-pointer hover:ring-2 hover:ring-indigo-300' : 'cursor-default'}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-3 text-[10px] text-slate-400 font-semibold">
+        Less
+        {LEVEL_CLASSES.map(cls => <span key={cls} className={`w-3 h-3 rounded-[3px] ${cls}`} />)}
+        More
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapView;
@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { normalizeText } from '../services/searchService';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[]; // normalized words or phrases from the search query
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Folds the text the way the search index does (no accents, lower case) and
+ * remembers where each folded character came from, so matches found in the
+ * folded text can be marked in the original.
+ */
+function foldText(text: string): { folded: string; starts: number[]; ends: number[] } {
+  let folded = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const end = offset + char.length;
+    const part = normalizeText(char);
+    if (part.length === 0 && ends.length > 0) {
+      // A combining accent belongs to the letter before it
+      ends[ends.length - 1] = end;
+    }
+    for (const c of part) {
+      folded += c;
+      for (let i = 0; i < c.length; i++) {
+        starts.push(offset);
+        ends.push(end);
+      }
+    }
+    offset = end;
+  }
+  return { folded, starts, ends };
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const pattern = useMemo(() => {
+    if (terms.length === 0) return null;
+    // Longest first so phrases win over the single words inside them
+    const alternatives = [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+') + '[\\p{L}\\p{N}]*');
+    // Terms match at the start of a word, as search ranks words by prefix
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'gu');
+  }, [terms]);
+
+  const parts = useMemo(() => {
+    if (!pattern) return [{ text, isMatch: false }];
+    const { folded, starts, ends } = foldText(text);
+    const result: { text: string; isMatch: boolean }[] = [];
+    let last = 0;
+    for (const match of folded.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      const from = starts[match.index!];
+      const to = ends[match.index! + match[0].length - 1];
+      if (from > last) result.push({ text: text.slice(last, from), isMatch: false });
+      result.push({ text: text.slice(from, to), isMatch: true });
+      last = to;
+    }
+    if (last < text.length) result.push({ text: text.slice(last), isMatch: false });
+    return result;
+  }, [text, pattern]);
+
+  return (
+    <>
+      {parts.map((part, idx) =>
+        part.isMatch
+          ? <mark key={idx} className="bg-amber-100 text-inherit rounded px-0.5">{part.text}</mark>
+          : <React.Fragment key={idx}>{part.text}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
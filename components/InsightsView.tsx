@@ -0,0 +1,245 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { BarChart3, Flame, PenLine, BookOpen, Trophy, Hash, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { MOODS, getMood } from '../constants';
+import { computeInsights, CountStat, INSIGHT_RANGES, InsightRange, WeekStat } from '../services/insightsService';
+
+interface InsightsViewProps {
+  entries: DiaryEntry[];
+  onDrillDown: (query: string) => void; // shows the matching entries in the timeline
+}
+
+// Mood trend chart, in SVG units
+const TREND_WIDTH = 600;
+const TREND_HEIGHT = 140;
+const TREND_PAD = 12;
+
+const trendY = (valence: number) => TREND_PAD + ((2 - valence) / 4) * (TREND_HEIGHT - TREND_PAD * 2);
+
+// The mood whose valence is closest to an average, for labelling it
+const nearestMood = (average: number) =>
+  MOODS.reduce((best, m) => Math.abs(m.valence - average) < Math.abs(best.valence - average) ? m : best);
+
+const weekLabel = (week: WeekStat) => `Week of ${format(week.start, 'MMM d, yyyy')}`;
+
+const InsightsView: React.FC<InsightsViewProps> = ({ entries, onDrillDown }) => {
+  const [range, setRange] = useState<InsightRange>('90d');
+  const [metric, setMetric] = useState<'entries' | 'words'>('entries');
+
+  const insights = useMemo(() => computeInsights(entries, range), [entries, range]);
+  const { weeks } = insights;
+
+  const trendPoints = weeks
+    .map((week, idx) => ({
+      week,
+      x: weeks.length > 1 ? TREND_PAD + (idx / (weeks.length - 1)) * (TREND_WIDTH - TREND_PAD * 2) : TREND_WIDTH / 2,
+    }))
+    .filter((p): p is { week: WeekStat & { moodAverage: number }; x: number } => p.week.moodAverage !== null);
+
+  const maxWeekly = Math.max(1, ...weeks.map(w => w[metric]));
+  const maxWeekday = Math.max(1, ...insights.weekdays.map(d => d.entries));
+
+  const stats = [
+    { icon: BookOpen, label: "Entries", value: insights.entries.toLocaleString(), note: `${insights.activeDays} days written` },
+    { icon: PenLine, label: "Words", value: insights.words.toLocaleString(), note: `${insights.averageWords} per entry` },
+    { icon: Flame, label: "Current streak", value: `${insights.currentStreak}`, note: insights.currentStreak === 1 ? "day" : "days" },
+    { icon: Trophy, label: "Longest streak", value: `${insights.longestStreak}`, note: insights.longestStreak === 1 ? "day" : "days" },
+  ];
+
+  const renderRanking = (title: string, Icon: typeof Hash, rows: CountStat[], empty: string) => {
+    const max = Math.max(1, ...rows.map(r => r.count));
+    return (
+      <div>
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-1.5">
+          <Icon size={12} /> {title}
+        </h4>
+        {rows.length === 0 ? (
+          <p className="text-sm text-slate-400">{empty}</p>
+        ) : (
+          <div className="space-y-1.5">
+            {rows.map(row => (
+              <button
+                key={row.name}
+                onClick={() => onDrillDown(row.query)}
+                className="w-full flex items-center gap-2 text-left group"
+              >
+                <span className="w-28 shrink-0 truncate text-sm font-semibold text-slate-600 group-hover:text-indigo-600">{row.name}</span>
+                <span className="flex-grow h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <span className="block h-full bg-indigo-400 group-hover:bg-indigo-600 rounded-full transition-colors" style={{ width: `${(row.count / max) * 100}%` }} />
+                </span>
+                <span className="w-6 text-right text-xs font-bold text-slate-400 tabular-nums">{row.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-5 md:p-6 mb-10 space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-black text-slate-800 flex items-center gap-2">
+            <BarChart3 size={18} className="text-indigo-600" /> Insights
+          </h3>
+          <p className="text-xs text-slate-400 font-semibold">Since {format(insights.start, 'MMMM d, yyyy')} · click any bar or point to see its entries</p>
+        </div>
+        <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-0.5">
+          {INSIGHT_RANGES.map(option => (
+            <button
+              key={option.range}
+              onClick={() => setRange(option.range)}
+              className={`px-2.5 py-1 rounded-lg text-xs font-bold transition-all ${
+                range === option.range ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(({ icon: Icon, label, value, note }) => (
+          <div key={label} className="bg-slate-50 border border-slate-100 rounded-2xl p-4">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1.5"><Icon size={12} /> {label}</p>
+            <p className="text-2xl font-black text-slate-800 tabular-nums mt-1">{value}</p>
+            <p className="text-xs text-slate-400 font-semibold">{note}</p>
+          </div>
+        ))}
+      </div>
+
+      {insights.entries === 0 ? (
+        <p className="text-center text-sm text-slate-400 py-6">No memories in this period yet.</p>
+      ) : (
+        <>
+          {/* Mood trend */}
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Mood trend</h4>
+            {trendPoints.length === 0 ? (
+              <p className="text-sm text-slate-400">Add moods to your entries to see how they change.</p>
+            ) : (
+              <div className="flex gap-2">
+                <div className="flex flex-col justify-between text-sm py-1">
+                  <span title="Joyful, grateful">{getMood('joyful').emoji}</span>
+                  <span title="Sad, angry">{getMood('sad').emoji}</span>
+                </div>
+                <svg viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} className="w-full h-auto">
+                  <line x1={0} x2={TREND_WIDTH} y1={trendY(0)} y2={trendY(0)} className="stroke-slate-200" strokeDasharray="4 4" />
+                  <polyline
+                    points={trendPoints.map(p => `${p.x},${trendY(p.week.moodAverage)}`).join(' ')}
+                    fill="none"
+                    className="stroke-indigo-400"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                  />
+                  {trendPoints.map(({ week, x }) => (
+                    <circle
+                      key={week.start.toISOString()}
+                      cx={x}
+                      cy={trendY(week.moodAverage)}
+                      r={5}
+                      onClick={() => onDrillDown(week.query)}
+                      className="fill-white stroke-indigo-600 cursor-pointer hover:fill-indigo-600"
+                      strokeWidth={2}
+                    >
+                      <title>{`${weekLabel(week)}: mostly ${nearestMood(week.moodAverage).label.toLowerCase()}`}</title>
+                    </circle>
+                  ))}
+                </svg>
+              </div>
+            )}
+          </div>
+
+          {/* Entries or words per week */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{metric === 'entries' ? "Entries" : "Words"} per week</h4>
+              <div className="flex gap-1">
+                {(['entries', 'words'] as const).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMetric(m)}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${metric === m ? 'bg-indigo-50 text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {m}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end gap-[2px] h-28">
+              {weeks.map(week => (
+                <button
+                  key={week.start.toISOString()}
+                  onClick={() => onDrillDown(week.query)}
+                  disabled={week.entries === 0}
+                  title={`${weekLabel(week)}: ${week[metric].toLocaleString()} ${metric === 'entries' ? (week.entries === 1 ? 'entry' : 'entries') : 'words'}`}
+                  className="flex-1 min-w-[3px] h-full flex items-end group disabled:cursor-default"
+                >
+                  <span
+                    className="block w-full rounded-t bg-indigo-300 group-hover:bg-indigo-600 group-disabled:bg-slate-100 transition-colors"
+                    style={{ height: `${Math.max(week[metric] / maxWeekly * 100, 3)}%` }}
+                  />
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] font-semibold text-slate-400">
+              <span>{format(weeks[0].start, 'MMM d')}</span>
+              <span>{format(weeks[weeks.length - 1].start, 'MMM d')}</span>
+            </div>
+          </div>
+
+          {/* Mood by weekday */}
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Mood by weekday</h4>
+            <div className="space-y-1.5">
+              {insights.weekdays.map(day => (
+                <div key={day.label} className="flex items-center gap-2">
+                  <button onClick={() => onDrillDown(day.query)} disabled={day.entries === 0} className="w-10 shrink-0 text-left text-xs font-bold text-slate-500 hover:text-indigo-600 disabled:hover:text-slate-500">
+                    {day.label}
+                  </button>
+                  <div className="flex-grow h-4">
+                    <div className="h-full flex rounded-md overflow-hidden bg-slate-50" style={{ width: `${(day.entries / maxWeekday) * 100}%` }}>
+                      {day.moods.map(mood => (
+                        <button
+                          key={mood.name}
+                          onClick={() => onDrillDown(mood.query)}
+                          title={`${getMood(mood.name).label} on ${day.label}: ${mood.count}`}
+                          className={`h-full hover:opacity-70 transition-opacity ${getMood(mood.name).barClass}`}
+                          style={{ flexGrow: mood.count }}
+                        />
+                      ))}
+                      {/* Entries without a mood */}
+                      <span className="h-full bg-slate-200" style={{ flexGrow: day.entries - day.moods.reduce((sum, m) => sum + m.count, 0) }} />
+                    </div>
+                  </div>
+                  <span className="w-8 shrink-0 text-right text-sm" title={day.moodAverage !== null ? `Mostly ${nearestMood(day.moodAverage).label.toLowerCase()}` : undefined}>
+                    {day.moodAverage !== null ? nearestMood(day.moodAverage).emoji : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {insights.moods.length > 0 && (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3">
+                {insights.moods.map(mood => (
+                  <button key={mood.name} onClick={() => onDrillDown(mood.query)} className="flex items-center gap-1 text-[10px] font-semibold text-slate-500 hover:text-indigo-600">
+                    <span className={`w-2 h-2 rounded-sm ${getMood(mood.name).barClass}`} /> {getMood(mood.name).label} ({mood.count})
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-8">
+            {renderRanking("Top tags", Hash, insights.topTags, "No tags in this period.")}
+            {renderRanking("Top people", Users, insights.topPeople, "No people in this period.")}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InsightsView;
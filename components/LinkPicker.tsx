@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { X, Link2, Sparkles, Loader2, Check, AlertCircle } from 'lucide-react';
+import { entryLabel, suggestLinks } from '../services/linkService';
+import { normalizeText } from '../services/searchService';
+
+interface LinkPickerProps {
+  entry: Pick<DiaryEntry, 'id' | 'content' | 'tags' | 'threads' | 'isPrivate'>; // the entry being edited
+  links: string[];
+  onChange: (links: string[]) => void;
+  entries: DiaryEntry[]; // every entry in the diary
+}
+
+const LinkPicker: React.FC<LinkPickerProps> = ({ entry, links, onChange, entries }) => {
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<DiaryEntry[] | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+
+  const byId = useMemo(() => new Map(entries.map(e => [e.id, e])), [entries]);
+
+  const matches = useMemo(() => {
+    const query = normalizeText(draft.trim());
+    if (!query) return [];
+    return entries
+      .filter(e => e.id !== entry.id && !links.includes(e.id) && normalizeText(entryLabel(e) + ' ' + e.content).includes(query))
+      .slice(0, 6);
+  }, [draft, entries, entry.id, links]);
+
+  const addLink = (id: string) => {
+    if (!links.includes(id)) onChange([...links, id]);
+    setDraft('');
+  };
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    setSuggestError(null);
+    try {
+      const result = await suggestLinks({ ...entry, links }, entries);
+      if (result.status === 'success') setSuggestions(result.value);
+      else setSuggestError(result.message);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const dismissSuggestion = (id: string) => {
+    setSuggestions(prev => prev && prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {links.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {links.map(id => {
+            const target = byId.get(id);
+            if (!target) return null;
+            return (
+              <span key={id} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-slate-100 text-slate-600 border border-slate-200 rounded-full text-xs font-semibold max-w-full">
+                <Link2 size={10} className="shrink-0" />
+                <span className="truncate">{entryLabel(target)}</span>
+                <button type="button" onClick={() => onChange(links.filter(l => l !== id))} className="p-0.5 hover:bg-slate-200 rounded-full">
+                  <X size={10} />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <div className="flex items-center gap-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 transition-all">
+            <Link2 size={14} className="text-slate-300" />
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Link to another memory..."
+              className="flex-grow bg-transparent outline-none text-sm text-slate-700 py-1"
+            />
+          </div>
+          {matches.length > 0 && (
+            <ul className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+              {matches.map(match => (
+                <li key={match.id}>
+                  <button
+                    type="button"
+                    onClick={() => addLink(match.id)}
+                    className="w-full text-left px-4 py-2 text-sm text-slate-600 hover:bg-slate-50 truncate"
+                  >
+                    {entryLabel(match)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleSuggest}
+          disabled={isSuggesting || !entry.content.trim() || entry.isPrivate}
+          className="flex items-center gap-1.5 px-3 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-all disabled:opacity-50 shrink-0"
+        >
+          {isSuggesting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+          Suggest
+        </button>
+      </div>
+
+      {suggestError && (
+        <p className="text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+          <AlertCircle size={12} /> {suggestError}
+        </p>
+      )}
+
+      {suggestions && (
+        suggestions.filter(s => !links.includes(s.id)).length === 0 ? (
+          <p className="text-xs text-slate-400">No related memories found.</p>
+        ) : (
+          <ul className="space-y-1">
+            {suggestions.filter(s => !links.includes(s.id)).map(s => (
+              <li key={s.id} className="flex items-center gap-2 px-3 py-2 bg-indigo-50/60 border border-indigo-100 rounded-xl">
+                <Sparkles size={12} className="text-indigo-400 shrink-0" />
+                <span className="text-xs text-slate-600 truncate flex-grow">{entryLabel(s)}</span>
+                <button type="button" onClick={() => addLink(s.id)} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-lg" title="Link">
+                  <Check size={14} />
+                </button>
+                <button type="button" onClick={() => dismissSuggestion(s.id)} className="p-1 text-slate-400 hover:bg-slate-100 rounded-lg" title="Dismiss">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default LinkPicker;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { EntryLocation } from '../types';
+import { MapPin, LocateFixed, Search, Loader2, X, AlertCircle, Image as ImageIcon } from 'lucide-react';
+import { Place } from '../services/geocoder';
+import { getCurrentPosition, reverseGeocode, searchPlaces, hasCoordinates, formatCoordinates } from '../services/locationService';
+
+interface LocationPickerProps {
+  value?: EntryLocation;
+  onChange: (location: EntryLocation | undefined) => void;
+  photoPosition?: { latitude: number; longitude: number } | null; // GPS position found in added photos
+  onDismissPhotoPosition?: () => void;
+}
+
+const SOURCE_LABELS: Record<EntryLocation['source'], string> = {
+  device: 'from this device',
+  photo: 'from a photo',
+  manual: 'looked up',
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange, photoPosition, onDismissPhotoPosition }) => {
+  const [results, setResults] = useState<Place[] | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [photoPlace, setPhotoPlace] = useState<string | null>(null);
+
+  const offerPhoto = !!photoPosition && !hasCoordinates(value);
+
+  useEffect(() => {
+    setPhotoPlace(null);
+    if (!photoPosition || !offerPhoto) return;
+    let cancelled = false;
+    reverseGeocode(photoPosition.latitude, photoPosition.longitude)
+      .then(name => { if (!cancelled) setPhotoPlace(name); });
+    return () => { cancelled = true; };
+  }, [photoPosition, offerPhoto]);
+
+  // Renaming keeps any coordinates, so "Near Lisbon" can become "Grandma's garden"
+  const handleNameChange = (name: string) => {
+    setResults(null);
+    if (!name && !hasCoordinates(value)) {
+      onChange(undefined);
+      return;
+    }
+    onChange({ ...value, name: name || undefined, source: value?.source || 'manual' });
+  };
+
+  const useCurrentLocation = async () => {
+    setIsLocating(true);
+    setError(null);
+    setResults(null);
+    try {
+      const { latitude, longitude } = await getCurrentPosition();
+      const name = await reverseGeocode(latitude, longitude);
+      onChange({ name: name || undefined, latitude, longitude, source: 'device' });
+    } catch (e: any) {
+      setError(e?.message || "Your location isn't available right now.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const lookUp = async () => {
+    const query = value?.name?.trim();
+    if (!query) return;
+    setIsSearching(true);
+    setError(null);
+    try {
+      const places = await searchPlaces(query);
+      setResults(places);
+      if (places.length === 0) setError("No matching place was found. It will be kept as typed, without a map position.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const usePhotoPosition = () => {
+    if (!photoPosition) return;
+    onChange({ name: photoPlace || value?.name || undefined, ...photoPosition, source: 'photo' });
+    onDismissPhotoPosition?.();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <MapPin size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={value?.name || ''}
+            onChange={(e) => handleNameChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); lookUp(); } }}
+            placeholder={hasCoordinates(value) ? 'Name this place' : 'Add a place, e.g. Lisbon'}
+            className="w-full pl-9 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={lookUp}
+          disabled={isSearching || !value?.name?.trim()}
+          className="p-2.5 bg-slate-50 border border-slate-200 text-slate-500 rounded-xl hover:bg-slate-100 transition-colors disabled:opacity-40"
+          title="Find on the map"
+        >
+          {isSearching ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+        </button>
+        <button
+          type="button"
+          onClick={useCurrentLocation}
+          disabled={isLocating}
+          className="p-2.5 bg-indigo-50 text-indigo-600 rounded-xl hover:bg-indigo-100 transition-colors disabled:opacity-40"
+          title="Use my current location"
+        >
+          {isLocating ? <Loader2 size={16} className="animate-spin" /> : <LocateFixed size={16} />}
+        </button>
+      </div>
+
+      {results && results.length > 0 && (
+        <ul className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+          {results.map(place => (
+            <li key={`${place.name}-${place.latitude}-${place.longitude}`}>
+              <button
+                type="button"
+                onClick={() => { onChange({ ...place, source: 'manual' }); setResults(null); setError(null); }}
+                className="w-full text-left px-4 py-2 text-sm text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 flex items-center justify-between gap-3"
+              >
+                <span className="truncate">{place.name}</span>
+                <span className="text-[10px] text-slate-400 font-mono shrink-0">{formatCoordinates(place.latitude, place.longitude)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasCoordinates(value) && (
+        <p className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="font-mono">{formatCoordinates(value.latitude, value.longitude)}</span>
+          <span>· {SOURCE_LABELS[value.source]}</span>
+          <button type="button" onClick={() => onChange(undefined)} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-rose-500">
+            <X size={12} /> Remove place
+          </button>
+        </p>
+      )}
+
+      {offerPhoto && (
+        <div className="flex items-center gap-2 px-3 py-2 bg-indigo-50 border border-indigo-100 rounded-xl">
+          <ImageIcon size={14} className="text-indigo-500 shrink-0" />
+          <p className="text-xs text-indigo-900 flex-grow">
+            Your photos were taken at <span className="font-semibold">{photoPlace || formatCoordinates(photoPosition!.latitude, photoPosition!.longitude)}</span>
+          </p>
+          <button
+            type="button"
+            onClick={usePhotoPosition}
+            className="px-2.5 py-1 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all"
+          >
+            Use this place
+          </button>
+          <button type="button" onClick={onDismissPhotoPosition} className="p-1 text-indigo-300 hover:text-indigo-600">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+          <AlertCircle size={12} /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, AlertCircle } from 'lucide-react';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err: any) {
+      setError(err?.name === 'InvalidPassphraseError' ? "That passphrase is not correct." : "Could not unlock your diary.");
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-indigo-600 to-indigo-900">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-sm rounded-[2rem] shadow-2xl p-8 animate-in zoom-in-95 duration-200">
+        <div className="w-14 h-14 bg-indigo-600 rounded-2xl flex items-center justify-center shadow-lg shadow-indigo-200 mx-auto mb-6">
+          <Lock className="text-white" size={26} />
+        </div>
+        <h1 className="text-2xl font-black text-slate-800 text-center mb-2">LifeThreads is locked</h1>
+        <p className="text-sm text-slate-400 text-center mb-8">Enter your passphrase to open your diary.</p>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all mb-4"
+        />
+
+        {error && (
+          <p className="text-sm text-rose-600 font-semibold flex items-center gap-2 mb-4">
+            <AlertCircle size={16} /> {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-lg"
+        >
+          {isUnlocking ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />}
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
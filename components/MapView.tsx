@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DiaryEntry } from '../types';
+import { Plus, Minus, Maximize, MapPin } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import { hasCoordinates, locationLabel } from '../services/locationService';
+import { REFERENCE_PLACES } from '../services/offlineGeocoder';
+import { entryLabel } from '../services/linkService';
+
+interface MapViewProps {
+  entries: DiaryEntry[];
+  showTiles: boolean; // OpenStreetMap tiles; otherwise only the offline base map is drawn
+  focusEntryId?: string | null;
+  onOpenEntry: (id: string) => void;
+}
+
+interface View {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+interface Point {
+  entry: DiaryEntry;
+  x: number; // world pixels at the current zoom
+  y: number;
+}
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 17;
+const HEIGHT = 420;
+const CLUSTER_RADIUS = 36; // px; markers closer than this are merged
+const MAX_LATITUDE = 85.0511; // where Web Mercator ends
+
+// Web Mercator, in pixels of a world that is TILE_SIZE * 2^zoom wide
+function project(latitude: number, longitude: number, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI / 180;
+  return {
+    x: (longitude + 180) / 360 * size,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * size,
+  };
+}
+
+function unproject(x: number, y: number, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  return {
+    longitude: x / size * 360 - 180,
+    latitude: Math.atan(Math.sinh(Math.PI * (1 - 2 * y / size))) * 180 / Math.PI,
+  };
+}
+
+// Greedy clustering in screen space, so the grouping follows the zoom level
+function cluster(points: Point[]): Point[][] {
+  const clusters: Point[][] = [];
+  for (const point of points) {
+    const near = clusters.find(c => Math.hypot(c[0].x - point.x, c[0].y - point.y) < CLUSTER_RADIUS);
+    if (near) near.push(point);
+    else clusters.push([point]);
+  }
+  return clusters;
+}
+
+// The closest view that shows every located entry
+function fitView(entries: DiaryEntry[], width: number): View {
+  const located = entries.map(e => e.location).filter(hasCoordinates);
+  if (located.length === 0) return { latitude: 20, longitude: 0, zoom: MIN_ZOOM };
+
+  const lats = located.map(l => l.latitude);
+  const lons = located.map(l => l.longitude);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lons);
+  const west = Math.min(...lons);
+
+  let zoom = MAX_ZOOM - 5;
+  while (zoom > MIN_ZOOM) {
+    const ne = project(north, east, zoom);
+    const sw = project(south, west, zoom);
+    if (ne.x - sw.x <= width - 2 * CLUSTER_RADIUS && sw.y - ne.y <= HEIGHT - 2 * CLUSTER_RADIUS) break;
+    zoom--;
+  }
+  const center = project((north + south) / 2, (east + west) / 2, zoom);
+  return { ...unproject(center.x, center.y, zoom), zoom };
+}
+
+function gridStep(zoom: number): number {
+  if (zoom <= 2) return 30;
+  if (zoom <= 4) return 10;
+  if (zoom <= 6) return 5;
+  if (zoom <= 8) return 1;
+  return 0.25;
+}
+
+const safeFormat = (dateStr: string) => {
+  const d = new Date(dateStr);
+  return isValid(d) ? format(d, 'MMM d, yyyy') : "Date Unknown";
+};
+
+const MapView: React.FC<MapViewProps> = ({ entries, showTiles, focusEntryId, onOpenEntry }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; centerX: number; centerY: number } | null>(null);
+  const lastWheelRef = useRef(0);
+  const [width, setWidth] = useState(800);
+  const [view, setView] = useState<View>(() => fitView(entries, 800));
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const located = useMemo(() => entries.filter(e => hasCoordinates(e.location)), [entries]);
+  const unmapped = useMemo(() => entries.filter(e => e.location && !hasCoordinates(e.location)), [entries]);
+  const locatedKey = located.map(e => e.id).join(',');
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width || 800));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Refit when the set of entries on the map changes, e.g. after filtering
+  useEffect(() => {
+    setView(fitView(located, containerRef.current?.clientWidth || width));
+    setSelectedIds(prev => prev.filter(id => located.some(e => e.id === id)));
+  }, [locatedKey]);
+
+  useEffect(() => {
+    const target = located.find(e => e.id === focusEntryId);
+    if (!target || !hasCoordinates(target.location)) return;
+    setView(prev => ({ latitude: target.location!.latitude!, longitude: target.location!.longitude!, zoom: Math.max(prev.zoom, 10) }));
+    setSelectedIds([target.id]);
+  }, [focusEntryId]);
+
+  const worldSize = TILE_SIZE * 2 ** view.zoom;
+  const center = project(view.latitude, view.longitude, view.zoom);
+  const originX = center.x - width / 2; // world pixel at the container's left edge
+  const originY = center.y - HEIGHT / 2;
+
+  const clusters = useMemo(() => {
+    const points = [...located]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(entry => ({ entry, ...project(entry.location!.latitude!, entry.location!.longitude!, view.zoom) }));
+    return cluster(points);
+  }, [located, view.zoom]);
+
+  const setCenter = (x: number, y: number, zoom = view.zoom) => {
+    const size = TILE_SIZE * 2 ** zoom;
+    const clampedY = size > HEIGHT ? Math.max(HEIGHT / 2, Math.min(size - HEIGHT / 2, y)) : size / 2;
+    const clampedX = Math.max(0, Math.min(size, x));
+    setView({ ...unproject(clampedX, clampedY, zoom), zoom });
+  };
+
+  // Zooms by whole steps, keeping the world point under (screenX, screenY) in place
+  const zoomBy = (delta: number, screenX = width / 2, screenY = HEIGHT / 2) => {
+    const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoom + delta));
+    if (zoom === view.zoom) return;
+    const factor = 2 ** (zoom - view.zoom);
+    const anchorX = originX + screenX;
+    const anchorY = originY + screenY;
+    setCenter(anchorX * factor - screenX + width / 2, anchorY * factor - screenY + HEIGHT / 2, zoom);
+  };
+
+  const zoomByRef = useRef(zoomBy);
+  zoomByRef.current = zoomBy;
+
+  // React's wheel listener is passive, and the page must not scroll while zooming
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const now = Date.now();
+      if (now - lastWheelRef.current < 250) return;
+      lastWheelRef.current = now;
+      const rect = el.getBoundingClientRect();
+      zoomByRef.current(e.deltaY < 0 ? 1 : -1, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest('button, a')) return;
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, centerX: center.x, centerY: center.y };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setCenter(drag.centerX - (e.clientX - drag.pointerX), drag.centerY - (e.clientY - drag.pointerY));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleClusterClick = (points: Point[]) => {
+    const spread = Math.max(...points.map(p => Math.hypot(p.x - points[0].x, p.y - points[0].y)));
+    if (points.length > 1 && spread > 1 && view.zoom < MAX_ZOOM) {
+      // Zoom in on the group until it splits apart
+      const x = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+      const y = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+      const zoom = Math.min(MAX_ZOOM, view.zoom + 2);
+      setCenter(x * 2 ** (zoom - view.zoom), y * 2 ** (zoom - view.zoom), zoom);
+      return;
+    }
+    setSelectedIds(points.map(p => p.entry.id));
+  };
+
+  const tiles = useMemo(() => {
+    if (!showTiles) return [];
+    const count = 2 ** view.zoom;
+    const list: { key: string; url: string; left: number; top: number }[] = [];
+    const firstX = Math.floor(originX / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(originY / TILE_SIZE));
+    const lastX = Math.floor((originX + width) / TILE_SIZE);
+    const lastY = Math.min(count - 1, Math.floor((originY + HEIGHT) / TILE_SIZE));
+    for (let tx = firstX; tx <= lastX; tx++) {
+      if (tx < 0 || tx >= count) continue;
+      for (let ty = firstY; ty <= lastY; ty++) {
+        list.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: `https://tile.openstreetmap.org/${view.zoom}/${tx}/${ty}.png`,
+          left: tx * TILE_SIZE - originX,
+          top: ty * TILE_SIZE - originY,
+        });
+      }
+    }
+    return list;
+  }, [showTiles, view.zoom, originX, originY, width]);
+
+  // Graticule and reference cities: a base map that needs no network at all
+  const grid = useMemo(() => {
+    const step = gridStep(view.zoom);
+    const west = unproject(originX, 0, view.zoom).longitude;
+    const east = unproject(originX + width, 0, view.zoom).longitude;
+    const north = unproject(0, originY, view.zoom).latitude;
+    const south = unproject(0, originY + HEIGHT, view.zoom).latitude;
+    const meridians: number[] = [];
+    const parallels: number[] = [];
+    for (let lon = Math.ceil(Math.max(-180, west) / step) * step; lon <= Math.min(180, east); lon += step) {
+      meridians.push(project(0, lon, view.zoom).x - originX);
+    }
+    for (let lat = Math.ceil(Math.max(-80, south) / step) * step; lat <= Math.min(80, north); lat += step) {
+      parallels.push(project(lat, 0, view.zoom).y - originY);
+    }
+    return { meridians, parallels };
+  }, [view.zoom, originX, originY, width]);
+
+  const references = useMemo(() => {
+    if (showTiles || view.zoom < 3) return [];
+    return REFERENCE_PLACES
+      .map(place => {
+        const p = project(place.latitude, place.longitude, view.zoom);
+        return { name: place.name, x: p.x - originX, y: p.y - originY };
+      })
+      .filter(p => p.x >= -40 && p.x <= width + 40 && p.y >= -20 && p.y <= HEIGHT + 20);
+  }, [showTiles, view.zoom, originX, originY, width]);
+
+  const selectedEntries = selectedIds
+    .map(id => located.find(e => e.id === id))
+    .filter((e): e is DiaryEntry => !!e);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-5 md:p-6 mb-10">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-800">Places</h3>
+          <p className="text-xs text-slate-400 font-semibold">
+            {located.length} {located.length === 1 ? 'entry' : 'entries'} on the map
+            {unmapped.length > 0 ? ` · ${unmapped.length} with a place but no map position` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded-2xl bg-sky-50 border border-slate-100 touch-none select-none cursor-grab active:cursor-grabbing"
+        style={{ height: HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* World edges, so the map's extent is visible without tiles */}
+        <div
+          className="absolute bg-white/70"
+          style={{ left: -originX, top: -originY, width: worldSize, height: worldSize }}
+        />
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={HEIGHT}>
+          {grid.meridians.map(x => <line key={`m${x}`} x1={x} x2={x} y1={0} y2={HEIGHT} className="stroke-slate-200" strokeWidth={1} />)}
+          {grid.parallels.map(y => <line key={`p${y}`} x1={0} x2={width} y1={y} y2={y} className="stroke-slate-200" strokeWidth={1} />)}
+        </svg>
+        {tiles.map(tile => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            className="absolute pointer-events-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+        {references.map(ref => (
+          <div
+            key={ref.name}
+            className="absolute pointer-events-none flex items-center gap-1 text-[10px] font-semibold text-slate-400 -translate-y-1/2"
+            style={{ left: ref.x - 2, top: ref.y }}
+          >
+            <span className="w-1 h-1 rounded-full bg-slate-300" /> {ref.name}
+          </div>
+        ))}
+
+        {clusters.map(points => {
+          const first = points[0];
+          const isSelected = points.some(p => selectedIds.includes(p.entry.id));
+          const size = points.length > 1 ? Math.min(48, 26 + Math.log2(points.length) * 6) : 22;
+          return (
+            <button
+              key={first.entry.id}
+              onClick={() => handleClusterClick(points)}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md flex items-center justify-center text-xs font-black transition-transform hover:scale-110 ${
+                isSelected ? 'bg-violet-600 text-white' : 'bg-indigo-600 text-white'
+              }`}
+              style={{ left: first.x - originX, top: first.y - originY, width: size, height: size }}
+              title={points.length > 1 ? `${points.length} entries` : locationLabel(first.entry.location!)}
+            >
+              {points.length > 1 ? points.length : <MapPin size={12} />}
+            </button>
+          );
+        })}
+
+        <div className="absolute top-3 right-3 flex flex-col bg-white rounded-xl shadow border border-slate-200 overflow-hidden">
+          <button onClick={() => zoomBy(1)} className="p-2 text-slate-500 hover:bg-slate-50" title="Zoom in"><Plus size={16} /></button>
+          <button onClick={() => zoomBy(-1)} className="p-2 text-slate-500 hover:bg-slate-50 border-t border-slate-100" title="Zoom out"><Minus size={16} /></button>
+          <button onClick={() => setView(fitView(located, width))} className="p-2 text-slate-500 hover:bg-slate-50 border-t border-slate-100" title="Show all"><Maximize size={16} /></button>
+        </div>
+
+        {showTiles && (
+          <a
+            href="https://www.openstreetmap.org/copyright"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="absolute bottom-0 right-0 px-2 py-0.5 bg-white/80 text-[10px] text-slate-500"
+          >
+            © OpenStreetMap contributors
+          </a>
+        )}
+
+        {located.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <p className="px-4 py-2 bg-white/90 rounded-xl text-sm text-slate-500 font-semibold shadow-sm">
+              No entries with a place yet. Add one from the entry editor.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {selectedEntries.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-100">
+          {selectedEntries.map(entry => (
+            <li key={entry.id}>
+              <button
+                onClick={() => onOpenEntry(entry.id)}
+                className="w-full text-left py-2.5 flex items-baseline gap-3 hover:bg-slate-50 rounded-lg px-2"
+              >
+                <span className="text-xs font-bold text-indigo-500 shrink-0">{safeFormat(entry.date)}</span>
+                <span className="text-sm text-slate-600 truncate flex-grow">{entryLabel(entry)}</span>
+                <span className="text-xs text-slate-400 truncate max-w-[40%]">{locationLabel(entry.location!)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MapView;
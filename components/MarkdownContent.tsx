@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { Block, Inline, parseMarkdown } from '../services/markdownService';
+import HighlightedText from './HighlightedText';
+
+interface MarkdownContentProps {
+  source: string;
+  highlightTerms?: string[];
+}
+
+// Every node becomes a React element; entry text is never injected as HTML
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, highlightTerms = [] }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderInline = (nodes: Inline[]): React.ReactNode =>
+    nodes.map((node, idx) => {
+      switch (node.type) {
+        case 'text':
+          return <HighlightedText key={idx} text={node.text} terms={highlightTerms} />;
+        case 'code':
+          return <code key={idx} className="px-1.5 py-0.5 bg-slate-100 rounded text-[0.9em] font-mono text-slate-800">{node.text}</code>;
+        case 'strong':
+          return <strong key={idx} className="font-bold text-slate-800">{renderInline(node.children)}</strong>;
+        case 'em':
+          return <em key={idx}>{renderInline(node.children)}</em>;
+        case 'strike':
+          return <s key={idx} className="text-slate-400">{renderInline(node.children)}</s>;
+        case 'link':
+          return (
+            <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-600 underline underline-offset-2 hover:text-indigo-800">
+              {renderInline(node.children)}
+            </a>
+          );
+      }
+    });
+
+  const renderBlock = (block: Block, idx: number): React.ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const className = ['text-2xl font-black', 'text-xl font-bold', 'text-lg font-bold'][block.level - 1];
+        const Tag = (['h3', 'h4', 'h5'] as const)[block.level - 1];
+        return <Tag key={idx} className={`${className} text-slate-800`}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={idx} className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'list': {
+        if (block.items.some(item => item.checked !== undefined)) {
+          return (
+            <ul key={idx} className="space-y-1">
+              {block.items.map((item, itemIdx) => (
+                <li key={itemIdx} className="flex items-start gap-2">
+                  {item.checked === undefined ? <span className="w-4 shrink-0" />
+                    : item.checked ? <CheckSquare size={16} className="text-emerald-500 shrink-0 mt-1" />
+                    : <Square size={16} className="text-slate-300 shrink-0 mt-1" />}
+                  <span className={`whitespace-pre-wrap ${item.checked ? 'line-through text-slate-400' : ''}`}>{renderInline(item.children)}</span>
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        const items = block.items.map((item, itemIdx) => (
+          <li key={itemIdx} className="whitespace-pre-wrap">{renderInline(item.children)}</li>
+        ));
+        return block.ordered
+          ? <ol key={idx} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={idx} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'quote':
+        return (
+          <blockquote key={idx} className="border-l-4 border-indigo-100 pl-4 text-slate-500 italic space-y-3">
+            {block.blocks.map(renderBlock)}
+          </blockquote>
+        );
+      case 'code':
+        return <pre key={idx} className="p-4 bg-slate-50 border border-slate-100 rounded-xl overflow-x-auto text-sm font-mono text-slate-700">{block.text}</pre>;
+      case 'rule':
+        return <hr key={idx} className="border-slate-100" />;
+    }
+  };
+
+  return <div className="text-slate-700 leading-relaxed space-y-3 break-words">{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,94 @@
+import React, { useState, useRef } from 'react';
+import { Bold, Italic, Strikethrough, Code, Link, Heading2, List, ListOrdered, ListChecks, Quote, Eye, PenLine } from 'lucide-react';
+import { FormatAction, applyFormat } from '../services/markdownService';
+import MarkdownContent from './MarkdownContent';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+const TOOLS: { action: FormatAction; icon: React.ElementType; label: string; shortcut?: string }[] = [
+  { action: 'bold', icon: Bold, label: 'Bold', shortcut: 'b' },
+  { action: 'italic', icon: Italic, label: 'Italic', shortcut: 'i' },
+  { action: 'strike', icon: Strikethrough, label: 'Strikethrough' },
+  { action: 'heading', icon: Heading2, label: 'Heading' },
+  { action: 'bullet', icon: List, label: 'Bulleted list' },
+  { action: 'numbered', icon: ListOrdered, label: 'Numbered list' },
+  { action: 'checklist', icon: ListChecks, label: 'Checklist' },
+  { action: 'quote', icon: Quote, label: 'Quote' },
+  { action: 'code', icon: Code, label: 'Code' },
+  { action: 'link', icon: Link, label: 'Link', shortcut: 'k' },
+];
+
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, placeholder }) => {
+  const [showPreview, setShowPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const format = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = applyFormat({ text: value, start: textarea.selectionStart, end: textarea.selectionEnd }, action);
+    onChange(next.text);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey) return;
+    const tool = TOOLS.find(t => t.shortcut === e.key.toLowerCase());
+    if (!tool) return;
+    e.preventDefault();
+    format(tool.action);
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 transition-all overflow-hidden">
+      <div className="flex items-center gap-0.5 px-2 py-1.5 border-b border-slate-200 bg-white overflow-x-auto">
+        {TOOLS.map(({ action, icon: Icon, label, shortcut }) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => format(action)}
+            disabled={showPreview}
+            title={shortcut ? `${label} (Ctrl+${shortcut.toUpperCase()})` : label}
+            className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-all disabled:opacity-30 shrink-0"
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setShowPreview(prev => !prev)}
+          className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-md text-xs font-bold transition-all shrink-0 ${
+            showPreview ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'
+          }`}
+        >
+          {showPreview ? <><PenLine size={12} /> Write</> : <><Eye size={12} /> Preview</>}
+        </button>
+      </div>
+
+      {showPreview ? (
+        <div className="min-h-32 max-h-80 overflow-y-auto custom-scrollbar px-4 py-3 bg-white">
+          {value.trim() ? <MarkdownContent source={value} /> : <p className="text-slate-400 text-sm">Nothing to preview yet.</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          autoFocus
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className="w-full h-40 px-4 py-3 bg-transparent outline-none resize-y text-slate-700"
+        />
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
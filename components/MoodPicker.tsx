@@ -0,0 +1,31 @@
+import React from 'react';
+import { MOODS } from '../constants';
+
+interface MoodPickerProps {
+  value?: string;
+  onChange: (mood: string | undefined) => void;
+}
+
+const MoodPicker: React.FC<MoodPickerProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {MOODS.map(mood => {
+        const isSelected = value === mood.value;
+        return (
+          <button
+            key={mood.value}
+            type="button"
+            onClick={() => onChange(isSelected ? undefined : mood.value)}
+            className={`px-3 py-1.5 rounded-full border text-sm font-medium flex items-center gap-1.5 transition-all ${
+              isSelected ? `${mood.chipClass} ring-2 ring-indigo-500/30 scale-105` : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <span>{mood.emoji}</span> {mood.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MoodPicker;
@@ -0,0 +1,126 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { History, Sparkles, Loader2, AlertCircle, ChevronDown, ChevronUp, ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { getMood } from '../constants';
+import { entrySnippet } from '../services/linkService';
+import { onThisDay, generateThenVsNow } from '../services/resurfaceService';
+import { canSendToAI } from '../services/privacyService';
+
+interface OnThisDayProps {
+  entries: DiaryEntry[];
+  onOpenEntry: (id: string) => void;
+}
+
+type Reflection = { status: 'running' } | { status: 'done'; text: string } | { status: 'error'; message: string };
+
+const OnThisDay: React.FC<OnThisDayProps> = ({ entries, onOpenEntry }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [reflections, setReflections] = useState<Record<string, Reflection>>({});
+
+  const today = new Date();
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const memories = useMemo(() => onThisDay(entries, today), [entries, todayKey]);
+
+  if (memories.length === 0) return null;
+
+  const reflect = async (entry: DiaryEntry) => {
+    setReflections(prev => ({ ...prev, [entry.id]: { status: 'running' } }));
+    const result = await generateThenVsNow(entry, entries);
+    setReflections(prev => ({
+      ...prev,
+      [entry.id]: result.status === 'success' ? { status: 'done', text: result.value } : { status: 'error', message: result.message },
+    }));
+  };
+
+  return (
+    <section className="bg-white rounded-[2rem] border border-amber-100 shadow-sm p-5 md:p-6 mb-8">
+      <button onClick={() => setIsCollapsed(c => !c)} className="w-full flex items-center gap-3 text-left">
+        <div className="w-10 h-10 bg-amber-50 rounded-2xl flex items-center justify-center shrink-0">
+          <History size={20} className="text-amber-500" />
+        </div>
+        <div className="flex-grow">
+          <h3 className="text-lg font-black text-slate-800">On this day</h3>
+          <p className="text-xs text-slate-400 font-semibold">
+            {format(today, 'MMMM d')} · {memories.length} {memories.length === 1 ? 'memory' : 'memories'} from earlier years
+          </p>
+        </div>
+        {isCollapsed ? <ChevronDown size={18} className="text-slate-400" /> : <ChevronUp size={18} className="text-slate-400" />}
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-5 space-y-4">
+          {memories.map(entry => {
+            const date = new Date(entry.date);
+            const yearsAgo = today.getFullYear() - date.getFullYear();
+            const reflection = reflections[entry.id];
+            return (
+              <article key={entry.id} className="p-4 bg-amber-50/40 border border-amber-100 rounded-2xl">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <p className="text-xs font-bold text-amber-600 uppercase tracking-wider">
+                    {yearsAgo === 1 ? 'A year ago' : `${yearsAgo} years ago`} · {format(date, 'yyyy')}
+                    {entry.mood && <span className="ml-2 normal-case">{getMood(entry.mood).emoji}</span>}
+                  </p>
+                  <button
+                    onClick={() => onOpenEntry(entry.id)}
+                    className="text-xs font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1 shrink-0"
+                  >
+                    Open <ArrowRight size={12} />
+                  </button>
+                </div>
+                <p className="text-sm text-slate-600 leading-relaxed">{entrySnippet(entry)}</p>
+
+                {entry.images.length > 0 && (
+                  <div className="flex gap-2 mt-3 overflow-x-auto custom-scrollbar pb-1">
+                    {entry.images.slice(0, 4).map((img, idx) => (
+                      <img
+                        key={idx}
+                        src={img}
+                        alt={`Memory ${idx + 1}`}
+                        onClick={() => onOpenEntry(entry.id)}
+                        className="w-24 h-24 object-cover rounded-xl border border-white shadow-sm cursor-pointer shrink-0"
+                      />
+                    ))}
+                    {entry.images.length > 4 && (
+                      <button
+                        onClick={() => onOpenEntry(entry.id)}
+                        className="w-24 h-24 rounded-xl bg-slate-100 text-slate-500 text-sm font-bold shrink-0"
+                      >
+                        +{entry.images.length - 4}
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {reflection?.status === 'done' ? (
+                  <div className="mt-3 p-3 bg-white border border-indigo-100 rounded-xl">
+                    <p className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1 flex items-center gap-1">
+                      <Sparkles size={10} /> Then vs. now
+                    </p>
+                    <p className="text-sm text-slate-600 italic leading-relaxed">{reflection.text}</p>
+                  </div>
+                ) : canSendToAI(entry) && (
+                  <button
+                    onClick={() => reflect(entry)}
+                    disabled={reflection?.status === 'running'}
+                    className="mt-3 text-xs font-bold text-indigo-600 flex items-center gap-1.5 hover:bg-indigo-50 px-2 py-1 rounded-md transition-all disabled:opacity-50"
+                  >
+                    {reflection?.status === 'running' ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                    Reflect on then vs. now
+                  </button>
+                )}
+                {reflection?.status === 'error' && (
+                  <p className="mt-1 text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+                    <AlertCircle size={12} /> {reflection.message}
+                  </p>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default OnThisDay;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DiaryEntry, EntryRevision } from '../types';
+import { X, History, Loader2, RotateCcw } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import { loadRevisions } from '../services/storageService';
+import { DiffPart, diffWords } from '../services/diffService';
+import { getMood } from '../constants';
+
+interface RevisionHistoryProps {
+  entry: DiaryEntry | null; // open while set
+  onClose: () => void;
+  onRestore: (revision: EntryRevision) => void;
+}
+
+function formatSavedAt(iso: string): string {
+  const d = new Date(iso);
+  return isValid(d) ? format(d, "MMM d, yyyy 'at' HH:mm") : 'Unknown time';
+}
+
+// Short notes on what changed besides the text
+function describeChanges(before: DiaryEntry, after: DiaryEntry): string[] {
+  const notes: string[] = [];
+  if (before.date !== after.date) notes.push(`Date changed to ${formatSavedAt(after.date)}`);
+  if ((before.mood || '') !== (after.mood || '')) {
+    notes.push(after.mood ? `Mood set to ${getMood(after.mood).label}` : 'Mood removed');
+  }
+  const beforeTags = before.tags || [];
+  const afterTags = after.tags || [];
+  const addedTags = afterTags.filter(t => !beforeTags.includes(t));
+  const removedTags = beforeTags.filter(t => !afterTags.includes(t));
+  if (addedTags.length > 0) notes.push(`Tagged ${addedTags.map(t => `#${t}`).join(' ')}`);
+  if (removedTags.length > 0) notes.push(`Untagged ${removedTags.map(t => `#${t}`).join(' ')}`);
+  const photoDelta = (after.images || []).length - (before.images || []).length;
+  if (photoDelta > 0) notes.push(`${photoDelta} photo${photoDelta === 1 ? '' : 's'} added`);
+  if (photoDelta < 0) notes.push(`${-photoDelta} photo${photoDelta === -1 ? '' : 's'} removed`);
+  if ((before.aiReflection || '') !== (after.aiReflection || '')) notes.push('AI reflection changed');
+  return notes;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entry, onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!entry) return;
+    setRevisions(null);
+    setSelectedId(null);
+    loadRevisions(entry.id)
+      .then(list => {
+        setRevisions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(err => {
+        console.error("Failed to load revisions", err);
+        setRevisions([]);
+      });
+  }, [entry?.id]);
+
+  const selectedIndex = revisions ? revisions.findIndex(r => r.id === selectedId) : -1;
+  const selected = selectedIndex >= 0 ? revisions![selectedIndex] : null;
+  // Revisions are newest first, so the one it replaced is next in the list
+  const previous = selectedIndex >= 0 ? revisions![selectedIndex + 1] ?? null : null;
+
+  const parts = useMemo((): DiffPart[] => {
+    if (!selected) return [];
+    if (!previous) return [{ type: 'same', text: selected.entry.content }];
+    return diffWords(previous.entry.content, selected.entry.content);
+  }, [selected, previous]);
+  const notes = selected && previous ? describeChanges(previous.entry, selected.entry) : [];
+  const isCurrent = !!selected && !!entry && selected.entry.content === entry.content && selected.entry.date === entry.date
+    && (selected.entry.images || []).length === (entry.images || []).length;
+
+  if (!entry) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm overflow-hidden">
+      <div className="bg-white w-full max-w-3xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <History size={20} className="text-indigo-500" /> History
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-600" />
+          </button>
+        </div>
+
+        {revisions === null ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 size={28} className="animate-spin text-indigo-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-20 px-6">
+            <History className="text-slate-200 mx-auto mb-3" size={36} />
+            <p className="text-slate-400 font-medium">No saved versions yet. A version is kept each time you edit this memory.</p>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row flex-grow overflow-hidden">
+            <ul className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto custom-scrollbar max-h-40 md:max-h-none p-2 space-y-1">
+              {revisions.map((revision, idx) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left px-3 py-2 rounded-xl text-sm transition-all ${
+                      revision.id === selectedId ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'
+                    }`}
+                  >
+                    {formatSavedAt(revision.savedAt)}
+                    {idx === revisions.length - 1 && <span className="block text-[10px] uppercase tracking-wider text-slate-400">Earliest</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-grow overflow-y-auto custom-scrollbar p-6">
+                <div className="flex items-center justify-between gap-3 mb-4">
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                    {previous ? 'Changes from the version before' : 'First saved version'}
+                  </p>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    disabled={isCurrent}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all disabled:opacity-40"
+                  >
+                    <RotateCcw size={12} /> {isCurrent ? 'Current version' : 'Restore this version'}
+                  </button>
+                </div>
+
+                {notes.length > 0 && (
+                  <ul className="mb-4 flex flex-wrap gap-2">
+                    {notes.map(note => (
+                      <li key={note} className="px-2.5 py-0.5 bg-slate-50 border border-slate-200 rounded-full text-xs text-slate-500">{note}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <p className="text-slate-700 whitespace-pre-wrap leading-relaxed">
+                  {parts.map((part, idx) => (
+                    <span
+                      key={idx}
+                      className={
+                        part.type === 'added' ? 'bg-emerald-100 text-emerald-800 rounded-sm'
+                          : part.type === 'removed' ? 'bg-rose-100 text-rose-700 line-through rounded-sm'
+                          : undefined
+                      }
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,946 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { DiaryEntry, AppSettings, AIProviderKind, AIProviderSettings, ImageFormat, ImageSettings, GeocoderKind, LocationSettings, EnrichmentSettings, PrivacySettings, PromptKind, PromptSettings, PromptTemplate } from '../types';
+import { X, Download, UploadCloud, FileJson, FileArchive, Loader2, AlertCircle, CheckCircle2, Lock, KeyRound, Sparkles, Trash2, History, Image as ImageIcon, HardDrive, MapPin, WandSparkles, Play, Pause, ShieldCheck, Palette, Plus, Copy, RotateCcw } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import {
+  ImportReport,
+  downloadBlob,
+  encryptExport,
+  exportFilename,
+  exportJsonArchive,
+  exportMarkdownZip,
+  mergeImport,
+  importSummaries,
+  readImportFile,
+} from '../services/exportService';
+import { enableVault, changeVaultPassphrase, disableVault } from '../services/vaultService';
+import { runAfterPendingWrites, getStorageUsage, StorageUsage } from '../services/storageService';
+import { configureAIProvider, testConnection } from '../services/aiService';
+import { BackfillStatus } from '../services/enrichmentService';
+import { AILogEntry, clearAILog, loadAILog } from '../services/privacyService';
+import { createTemplate, getActiveTemplate, originalTemplate, templatesOf, TEMPLATE_PLACEHOLDERS } from '../services/templateService';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: DiaryEntry[];
+  onImport: (entries: DiaryEntry[]) => void;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  isEncrypted: boolean;
+  onEncryptionChange: (enabled: boolean) => void;
+  backfill: BackfillStatus;
+  backfillRemaining: number; // entries that have never been analyzed
+  onStartBackfill: () => void;
+  onStopBackfill: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+const REVISION_COUNT_OPTIONS = [5, 10, 20, 50, 0];
+const REVISION_AGE_OPTIONS = [30, 90, 365, 0];
+const ENRICHMENT_RATE_OPTIONS = [2, 5, 10, 30];
+const IMAGE_FORMATS: { format: ImageFormat; label: string; mime: string }[] = [
+  { format: 'jpeg', label: 'JPEG', mime: 'image/jpeg' },
+  { format: 'webp', label: 'WebP', mime: 'image/webp' },
+  { format: 'avif', label: 'AVIF', mime: 'image/avif' },
+];
+const IMAGE_SIZE_OPTIONS = [1000, 1600, 2048, 3072];
+const IMAGE_QUALITY_OPTIONS = [0.6, 0.7, 0.8, 0.9];
+
+// Canvas falls back to PNG for types it cannot write
+function canEncode(mime: string): boolean {
+  try {
+    return document.createElement('canvas').toDataURL(mime).startsWith(`data:${mime}`);
+  } catch {
+    return false;
+  }
+}
+
+const GEOCODERS: { kind: GeocoderKind; label: string }[] = [
+  { kind: 'offline', label: 'Offline place list' },
+  { kind: 'nominatim', label: 'OpenStreetMap (sends positions online)' },
+];
+
+const AI_PROVIDERS: { kind: AIProviderKind; label: string; description: string }[] = [
+  { kind: 'gemini', label: 'Gemini', description: 'Google Gemini via the app API key' },
+  { kind: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any /v1 server, including local models' },
+  { kind: 'mock', label: 'Offline mock', description: 'Deterministic output, no network' },
+];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  isOpen,
+  onClose,
+  entries,
+  onImport,
+  settings,
+  onSettingsChange,
+  isEncrypted,
+  onEncryptionChange,
+  backfill,
+  backfillRemaining,
+  onStartBackfill,
+  onStopBackfill
+}) => {
+  const [busy, setBusy] = useState<'json' | 'zip' | 'import' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [encryptExports, setEncryptExports] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [pendingImport, setPendingImport] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [vaultMessage, setVaultMessage] = useState<string | null>(null);
+  const [aiTest, setAiTest] = useState<{ status: 'running' | 'ok' | 'error'; message: string } | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [aiLog, setAiLog] = useState<AILogEntry[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Measured each time the panel opens, so it reflects recordings and photos added since
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getStorageUsage()
+      .then(u => { if (!cancelled) setUsage(u); })
+      .catch(e => console.error("Storage usage unavailable", e));
+    return () => { cancelled = true; };
+  }, [isOpen, entries]);
+
+  useEffect(() => {
+    if (isOpen) setAiLog(loadAILog());
+  }, [isOpen]);
+
+  const safeFormat = (dateStr: string) => {
+    const d = new Date(dateStr);
+    return isValid(d) ? format(d, 'MMM d, yyyy HH:mm') : "Date Unknown";
+  };
+
+  const handleExport = async (kind: 'json' | 'zip') => {
+    setBusy(kind);
+    setError(null);
+    try {
+      const blob = kind === 'json' ? await exportJsonArchive(entries) : await exportMarkdownZip(entries);
+      if (encryptExports) {
+        downloadBlob(await encryptExport(blob, exportPassphrase), exportFilename(`${kind}.encrypted.json`));
+      } else {
+        downloadBlob(blob, exportFilename(kind));
+      }
+    } catch (e) {
+      console.error("Export failed:", e);
+      setError("Export failed. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (file: File, passphrase?: string) => {
+    setBusy('import');
+    setError(null);
+    setReport(null);
+    try {
+      const imported = await readImportFile(file, passphrase);
+      const result = mergeImport(entries, imported.entries);
+      if (result.added > 0) onImport(result.merged);
+      setReport({ ...result, summariesAdded: await importSummaries(imported.summaries) });
+      setPendingImport(null);
+      setImportPassphrase('');
+    } catch (e: any) {
+      if (e?.name === 'PassphraseRequiredError' || e?.name === 'InvalidPassphraseError') {
+        // Keep the file around and ask for its passphrase
+        setPendingImport(file);
+        setImportPassphrase('');
+        setError(e.message);
+      } else {
+        console.error("Import failed:", e);
+        setError(e?.message || "This file could not be imported.");
+      }
+    } finally {
+      setBusy(null);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const resolveConflict = (id: string, useIncoming: boolean) => {
+    if (!report) return;
+    const conflict = report.conflicts.find(c => c.id === id);
+    if (conflict && useIncoming) {
+      onImport(entries.map(e => e.id === id ? conflict.incoming : e));
+    }
+    setReport({ ...report, conflicts: report.conflicts.filter(c => c.id !== id) });
+  };
+
+  const resetVaultForm = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const runVaultAction = async (action: () => Promise<void>, message: string, enabledAfter: boolean) => {
+    setVaultBusy(true);
+    setVaultError(null);
+    setVaultMessage(null);
+    try {
+      // Re-keying rewrites every record, so it waits for in-flight saves
+      await runAfterPendingWrites(action);
+      onEncryptionChange(enabledAfter);
+      setVaultMessage(message);
+      resetVaultForm();
+    } catch (e: any) {
+      console.error("Encryption change failed:", e);
+      setVaultError(e?.name === 'InvalidPassphraseError' ? "Your current passphrase is not correct." : "Could not update encryption. Nothing was changed.");
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const newPassphraseError = newPassphrase && newPassphrase.length < 8
+    ? "Use at least 8 characters."
+    : confirmPassphrase && newPassphrase !== confirmPassphrase ? "Passphrases do not match." : null;
+  const canSetPassphrase = newPassphrase.length >= 8 && newPassphrase === confirmPassphrase && !vaultBusy;
+
+  const passwordInput = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+    />
+  );
+
+  const encodable = useMemo(() => new Set(IMAGE_FORMATS.filter(f => canEncode(f.mime)).map(f => f.format)), []);
+
+  const updateImages = (patch: Partial<ImageSettings>) => {
+    onSettingsChange({ ...settings, images: { ...settings.images, ...patch } });
+  };
+
+  const updateLocation = (patch: Partial<LocationSettings>) => {
+    onSettingsChange({ ...settings, location: { ...settings.location, ...patch } });
+  };
+
+  const updateEnrichment = (patch: Partial<EnrichmentSettings>) => {
+    onSettingsChange({ ...settings, enrichment: { ...settings.enrichment, ...patch } });
+  };
+
+  const updatePrivacy = (patch: Partial<PrivacySettings>) => {
+    onSettingsChange({ ...settings, privacy: { ...settings.privacy, ...patch } });
+  };
+
+  const handleClearAILog = () => {
+    if (!window.confirm("Clear the log of AI requests?")) return;
+    clearAILog();
+    setAiLog([]);
+  };
+
+  const updatePrompts = (patch: Partial<PromptSettings>) => {
+    onSettingsChange({ ...settings, prompts: { ...settings.prompts, ...patch } });
+  };
+
+  const activeIdPatch = (kind: PromptKind, id: string): Partial<PromptSettings> =>
+    kind === 'reflection' ? { reflectionTemplateId: id } : { imageTemplateId: id };
+
+  const updateTemplate = (id: string, patch: Partial<PromptTemplate>) => {
+    updatePrompts({ templates: settings.prompts.templates.map(t => t.id === id ? { ...t, ...patch } : t) });
+  };
+
+  const addTemplate = (kind: PromptKind, from?: PromptTemplate) => {
+    const template = createTemplate(kind, from);
+    updatePrompts({ templates: [...settings.prompts.templates, template], ...activeIdPatch(kind, template.id) });
+  };
+
+  // Only custom templates can be deleted; the first of the same kind takes over
+  const deleteTemplate = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete "${template.name}"? Entries keep its name.`)) return;
+    const templates = settings.prompts.templates.filter(t => t.id !== template.id);
+    updatePrompts({ templates, ...activeIdPatch(template.kind, templatesOf(templates, template.kind)[0].id) });
+  };
+
+  const updateAI = (patch: Partial<AIProviderSettings>) => {
+    onSettingsChange({ ...settings, ai: { ...settings.ai, ...patch } });
+    setAiTest(null);
+  };
+
+  const testAIProvider = async () => {
+    setAiTest({ status: 'running', message: "Contacting provider..." });
+    // Configure eagerly so the test uses the values currently on screen
+    configureAIProvider(settings.ai);
+    const result = await testConnection(getActiveTemplate('reflection', settings.prompts));
+    setAiTest(result.status === 'success'
+      ? { status: 'ok', message: result.value || "Connected, but the reply was empty." }
+      : { status: 'error', message: result.message });
+    setAiLog(loadAILog());
+  };
+
+  const textInput = (value: string, onChange: (v: string) => void, placeholder: string, type = 'text') => (
+    <input
+      type={type}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+    />
+  );
+
+  const renderTemplates = (kind: PromptKind, title: string, hint: string) => {
+    const active = getActiveTemplate(kind, settings.prompts);
+    const original = active.builtIn ? originalTemplate(active.id) : undefined;
+    const isEdited = !!original && (original.name !== active.name || original.text !== active.text);
+    return (
+      <div>
+        <p className="text-xs font-semibold text-slate-500 mb-2">{title}</p>
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {templatesOf(settings.prompts.templates, kind).map(template => (
+            <button
+              key={template.id}
+              onClick={() => updatePrompts(activeIdPatch(kind, template.id))}
+              className={`px-3 py-1.5 rounded-xl border text-xs font-bold transition-all ${
+                template.id === active.id ? 'border-indigo-500 bg-indigo-50 text-indigo-600' : 'border-slate-200 bg-slate-50 text-slate-500 hover:border-slate-300'
+              }`}
+            >
+              {template.name || "Untitled"}
+            </button>
+          ))}
+          <button onClick={() => addTemplate(kind)} className="px-2 py-1.5 rounded-xl text-xs font-bold text-indigo-600 hover:bg-indigo-50 flex items-center gap-1">
+            <Plus size={12} /> New
+          </button>
+        </div>
+        <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-2">
+          {textInput(active.name, v => updateTemplate(active.id, { name: v }), "Name")}
+          <textarea
+            value={active.text}
+            onChange={(e) => updateTemplate(active.id, { text: e.target.value })}
+            rows={4}
+            className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm resize-y"
+          />
+          <p className="text-xs text-slate-400">{hint}</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => addTemplate(kind, active)} className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-100 flex items-center gap-1.5">
+              <Copy size={12} /> Duplicate
+            </button>
+            {original && isEdited && (
+              <button onClick={() => updateTemplate(active.id, { name: original.name, text: original.text })} className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-100 flex items-center gap-1.5">
+                <RotateCcw size={12} /> Reset
+              </button>
+            )}
+            {!active.builtIn && (
+              <button onClick={() => deleteTemplate(active)} className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-xs font-bold text-rose-600 hover:bg-rose-50 flex items-center gap-1.5">
+                <Trash2 size={12} /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm overflow-hidden">
+      <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-800">Settings</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-8">
+          {/* Backup & Restore */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1">Backup & Restore</h3>
+            <p className="text-sm text-slate-400 mb-4">Take your whole diary with you, or bring it into another browser.</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+              <button
+                onClick={() => handleExport('json')}
+                disabled={busy !== null || entries.length === 0 || (encryptExports && exportPassphrase.length < 8)}
+                className="flex items-center gap-3 p-4 bg-slate-50 border border-slate-200 rounded-2xl text-left hover:border-indigo-300 hover:bg-indigo-50 transition-all disabled:opacity-50"
+              >
+                {busy === 'json' ? <Loader2 size={20} className="animate-spin text-indigo-500" /> : <FileJson size={20} className="text-indigo-500" />}
+                <div>
+                  <p className="font-semibold text-slate-700 text-sm">JSON archive</p>
+                  <p className="text-xs text-slate-400">Complete, lossless backup</p>
+                </div>
+              </button>
+              <button
+                onClick={() => handleExport('zip')}
+                disabled={busy !== null || entries.length === 0 || (encryptExports && exportPassphrase.length < 8)}
+                className="flex items-center gap-3 p-4 bg-slate-50 border border-slate-200 rounded-2xl text-left hover:border-indigo-300 hover:bg-indigo-50 transition-all disabled:opacity-50"
+              >
+                {busy === 'zip' ? <Loader2 size={20} className="animate-spin text-indigo-500" /> : <FileArchive size={20} className="text-indigo-500" />}
+                <div>
+                  <p className="font-semibold text-slate-700 text-sm">Markdown + photos (ZIP)</p>
+                  <p className="text-xs text-slate-400">Readable files with front-matter</p>
+                </div>
+              </button>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-600 mb-2 cursor-pointer">
+              <input type="checkbox" checked={encryptExports} onChange={(e) => setEncryptExports(e.target.checked)} className="accent-indigo-600" />
+              Encrypt exports with a passphrase
+            </label>
+            {encryptExports && (
+              <div className="mb-3">
+                {passwordInput(exportPassphrase, setExportPassphrase, "Export passphrase (min. 8 characters)")}
+              </div>
+            )}
+
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-semibold hover:bg-indigo-100 transition-colors disabled:opacity-50"
+            >
+              {busy === 'import' ? <Loader2 size={16} className="animate-spin" /> : <UploadCloud size={16} />}
+              {busy === 'import' ? 'Importing...' : 'Import archive or ZIP'}
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept=".json,.zip,application/json,application/zip"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+              className="hidden"
+            />
+
+            {error && (
+              <div className="mt-4 bg-rose-50 border border-rose-200 p-3 rounded-xl flex items-center gap-2 text-rose-800 text-sm">
+                <AlertCircle size={16} className="shrink-0 text-rose-500" /> {error}
+              </div>
+            )}
+
+            {pendingImport && (
+              <form
+                onSubmit={(e) => { e.preventDefault(); handleImport(pendingImport, importPassphrase); }}
+                className="mt-3 flex gap-2"
+              >
+                {passwordInput(importPassphrase, setImportPassphrase, `Passphrase for ${pendingImport.name}`)}
+                <button type="submit" disabled={!importPassphrase || busy !== null} className="px-4 rounded-xl bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50">
+                  Import
+                </button>
+              </form>
+            )}
+
+            {report && (
+              <div className="mt-4 bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                  <CheckCircle2 size={16} className="text-emerald-500" />
+                  {report.added} added · {report.unchanged} already present · {report.conflicts.length} conflicts · {report.invalid.length} unreadable
+                  {report.summariesAdded > 0 && ` · ${report.summariesAdded} ${report.summariesAdded === 1 ? 'summary' : 'summaries'} added`}
+                </div>
+
+                {report.invalid.length > 0 && (
+                  <ul className="text-xs text-rose-600 list-disc pl-5 space-y-0.5">
+                    {report.invalid.map((reason, idx) => <li key={idx}>{reason}</li>)}
+                  </ul>
+                )}
+
+                {report.conflicts.map(conflict => (
+                  <div key={conflict.id} className="bg-white border border-amber-200 rounded-xl p-3">
+                    <p className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">
+                      Conflict · {safeFormat(conflict.local.date)}
+                    </p>
+                    <div className="grid grid-cols-2 gap-3 text-xs text-slate-600 mb-3">
+                      <div>
+                        <p className="font-semibold text-slate-400 mb-1">In this diary</p>
+                        <p className="line-clamp-3">{conflict.local.content}</p>
+                      </div>
+                      <div>
+                        <p className="font-semibold text-slate-400 mb-1">In the import</p>
+                        <p className="line-clamp-3">{conflict.incoming.content}</p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => resolveConflict(conflict.id, false)} className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200">
+                        Keep mine
+                      </button>
+                      <button onClick={() => resolveConflict(conflict.id, true)} className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+                        Use imported
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="mt-3 text-[11px] text-slate-400 flex items-center gap-1">
+              <Download size={12} /> Exports stay on your device; nothing is uploaded.
+            </p>
+          </section>
+
+          {/* AI Provider */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <Sparkles size={14} /> AI Provider
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Choose where reflections, images and summaries are generated.</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+              {AI_PROVIDERS.map(option => (
+                <button
+                  key={option.kind}
+                  onClick={() => updateAI({ kind: option.kind })}
+                  className={`p-3 rounded-2xl border text-left transition-all ${
+                    settings.ai.kind === option.kind ? 'border-indigo-500 bg-indigo-50 ring-2 ring-indigo-500/20' : 'border-slate-200 bg-slate-50 hover:border-slate-300'
+                  }`}
+                >
+                  <p className="font-semibold text-sm text-slate-700">{option.label}</p>
+                  <p className="text-xs text-slate-400">{option.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {settings.ai.kind === 'gemini' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 bg-slate-50 border border-slate-200 rounded-2xl p-4">
+                <label className="text-xs font-semibold text-slate-500 space-y-1">
+                  <span>Text model</span>
+                  {textInput(settings.ai.geminiTextModel, v => updateAI({ geminiTextModel: v }), "gemini-3-flash-preview")}
+                </label>
+                <label className="text-xs font-semibold text-slate-500 space-y-1">
+                  <span>Image model</span>
+                  {textInput(settings.ai.geminiImageModel, v => updateAI({ geminiImageModel: v }), "gemini-2.5-flash-image")}
+                </label>
+              </div>
+            )}
+
+            {settings.ai.kind === 'openai-compatible' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 bg-slate-50 border border-slate-200 rounded-2xl p-4">
+                <label className="text-xs font-semibold text-slate-500 space-y-1 sm:col-span-2">
+                  <span>Base URL</span>
+                  {textInput(settings.ai.openAIBaseUrl, v => updateAI({ openAIBaseUrl: v }), "http://localhost:11434/v1")}
+                </label>
+                <label className="text-xs font-semibold text-slate-500 space-y-1">
+                  <span>Chat model</span>
+                  {textInput(settings.ai.openAIModel, v => updateAI({ openAIModel: v }), "llama3.1")}
+                </label>
+                <label className="text-xs font-semibold text-slate-500 space-y-1">
+                  <span>Image model (optional)</span>
+                  {textInput(settings.ai.openAIImageModel, v => updateAI({ openAIImageModel: v }), "Leave empty to skip images")}
+                </label>
+                <label className="text-xs font-semibold text-slate-500 space-y-1 sm:col-span-2">
+                  <span>Transcription model (optional)</span>
+                  {textInput(settings.ai.openAIAudioModel, v => updateAI({ openAIAudioModel: v }), "e.g. whisper-1, leave empty to skip voice notes")}
+                </label>
+                <label className="text-xs font-semibold text-slate-500 space-y-1 sm:col-span-2">
+                  <span>API key (optional, stored in this browser)</span>
+                  {textInput(settings.ai.openAIApiKey, v => updateAI({ openAIApiKey: v }), "sk-...", 'password')}
+                </label>
+              </div>
+            )}
+
+            <button
+              onClick={testAIProvider}
+              disabled={aiTest?.status === 'running' || !settings.privacy.aiEnabled}
+              title={settings.privacy.aiEnabled ? undefined : "AI features are turned off below"}
+              className="mt-3 px-4 py-2 rounded-xl bg-indigo-50 text-indigo-600 text-sm font-semibold hover:bg-indigo-100 disabled:opacity-50 flex items-center gap-2"
+            >
+              {aiTest?.status === 'running' ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Test provider
+            </button>
+            {aiTest && aiTest.status !== 'running' && (
+              <p className={`mt-2 text-sm flex items-start gap-2 ${aiTest.status === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {aiTest.status === 'ok' ? <CheckCircle2 size={14} className="mt-0.5 shrink-0" /> : <AlertCircle size={14} className="mt-0.5 shrink-0" />}
+                <span className="line-clamp-3">{aiTest.message}</span>
+              </p>
+            )}
+          </section>
+
+          {/* Reflection Styles */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <Palette size={14} /> Reflection Styles
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">
+              Pick how reflections are written and how their images look. Templates use {TEMPLATE_PLACEHOLDERS.join(' and ')}, which are filled in for each entry.
+            </p>
+            <div className="space-y-5">
+              <label className="block text-xs font-semibold text-slate-500 space-y-1">
+                <span>Reflection language</span>
+                {textInput(settings.prompts.language, v => updatePrompts({ language: v }), "Same as the entry, or e.g. Spanish")}
+              </label>
+              {renderTemplates('reflection', "Persona", "{date} is the entry's date and {content} its text.")}
+              {renderTemplates('image', "Image style", "{content} is a short scene the AI first describes from the entry; {date} is the entry's date.")}
+            </div>
+          </section>
+
+          {/* AI Enrichment */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <WandSparkles size={14} /> AI Suggestions
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Suggest a mood, tags, people, places and events for entries. Suggestions wait in the editor until you accept them.</p>
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.enrichment.analyzeOnSave}
+                  onChange={(e) => updateEnrichment({ analyzeOnSave: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                Analyze entries when they are saved
+              </label>
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Back-fill speed
+                <select
+                  value={settings.enrichment.requestsPerMinute}
+                  onChange={(e) => updateEnrichment({ requestsPerMinute: Number(e.target.value) })}
+                  disabled={backfill.isRunning}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {ENRICHMENT_RATE_OPTIONS.map(rate => (
+                    <option key={rate} value={rate}>{rate} entries per minute</option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4">
+                <div className="flex items-center gap-3">
+                  <p className="text-sm text-slate-600 flex-grow">
+                    {backfill.isRunning && backfill.progress
+                      ? `Analyzing past entries: ${backfill.progress.done + backfill.progress.failed} of ${backfill.progress.total}`
+                      : backfillRemaining > 0
+                        ? `${backfillRemaining} past ${backfillRemaining === 1 ? 'entry has' : 'entries have'} not been analyzed yet.`
+                        : "Every entry has been analyzed."}
+                  </p>
+                  {backfill.isRunning ? (
+                    <button onClick={onStopBackfill} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-200 text-slate-600 text-xs font-bold hover:bg-slate-300">
+                      <Pause size={12} /> Pause
+                    </button>
+                  ) : backfillRemaining > 0 && (
+                    <button onClick={onStartBackfill} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700">
+                      <Play size={12} /> {backfill.progress ? 'Resume' : 'Start'}
+                    </button>
+                  )}
+                </div>
+                {backfill.isRunning && backfill.progress && backfill.progress.total > 0 && (
+                  <div className="mt-3 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-500 transition-all"
+                      style={{ width: `${((backfill.progress.done + backfill.progress.failed) / backfill.progress.total) * 100}%` }}
+                    />
+                  </div>
+                )}
+                {backfill.error && (
+                  <p className="mt-2 text-xs text-rose-600 flex items-center gap-1.5"><AlertCircle size={12} /> {backfill.error}</p>
+                )}
+                <p className="mt-2 text-xs text-slate-400">Runs in the background while the app is open and continues where it left off after a reload.</p>
+              </div>
+            </div>
+          </section>
+
+          {/* Privacy & AI */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <ShieldCheck size={14} /> Privacy & AI
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Control what leaves this device. Entries marked private are never sent to the AI.</p>
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.privacy.aiEnabled}
+                  onChange={(e) => updatePrivacy({ aiEnabled: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                Use AI features
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.privacy.redact}
+                  onChange={(e) => updatePrivacy({ redact: e.target.checked })}
+                  disabled={!settings.privacy.aiEnabled}
+                  className="accent-indigo-600"
+                />
+                Mask names, emails, phone numbers and addresses before sending
+              </label>
+              {settings.privacy.redact && (
+                <p className="text-xs text-slate-400">People you have named in entries are masked wherever they appear, and put back in the replies. Voice notes are sent as recorded.</p>
+              )}
+
+              <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm font-semibold text-slate-600">Sent to the AI</p>
+                  {aiLog.length > 0 && (
+                    <button onClick={handleClearAILog} className="text-xs font-bold text-slate-400 hover:text-rose-600 flex items-center gap-1">
+                      <Trash2 size={12} /> Clear log
+                    </button>
+                  )}
+                </div>
+                {aiLog.length === 0 ? (
+                  <p className="text-xs text-slate-400">Nothing has been sent yet.</p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-1.5">
+                    {aiLog.map(item => (
+                      <details key={item.id} className="bg-white border border-slate-100 rounded-xl px-3 py-2 text-xs">
+                        <summary className="cursor-pointer flex flex-wrap items-center gap-x-2 text-slate-600">
+                          <span className="font-semibold capitalize">{item.operation}</span>
+                          <span className="text-slate-400">{safeFormat(item.sentAt)} · {item.provider}</span>
+                          <span className="text-slate-400 ml-auto">
+                            {item.characters.toLocaleString()} chars{item.redactions > 0 && ` · ${item.redactions} masked`}
+                          </span>
+                        </summary>
+                        {item.attachment && <p className="mt-2 text-slate-500">Attached: {item.attachment}</p>}
+                        {item.text !== undefined ? (
+                          <pre className="mt-2 max-h-40 overflow-y-auto whitespace-pre-wrap font-sans text-slate-500 bg-slate-50 rounded-lg p-2">{item.text || "(no text)"}</pre>
+                        ) : (
+                          <p className="mt-2 text-slate-400">The text itself is only kept until the app is closed or locked.</p>
+                        )}
+                      </details>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+
+          {/* Privacy Lock */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <Lock size={14} /> Privacy Lock
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">
+              {isEncrypted
+                ? "Your diary is encrypted on this device. It can only be opened with your passphrase."
+                : "Encrypt entries and photos on this device with a passphrase. If you forget it, your diary cannot be recovered."}
+            </p>
+
+            {isEncrypted ? (
+              <div className="space-y-4">
+                <label className="flex items-center justify-between text-sm text-slate-600">
+                  Lock automatically after
+                  <select
+                    value={settings.autoLockMinutes}
+                    onChange={(e) => onSettingsChange({ ...settings, autoLockMinutes: Number(e.target.value) })}
+                    className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {AUTO_LOCK_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes === 0 ? "Never" : `${minutes} min of inactivity`}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-2">
+                  <p className="text-sm font-semibold text-slate-700 flex items-center gap-2"><KeyRound size={14} /> Change passphrase</p>
+                  {passwordInput(currentPassphrase, setCurrentPassphrase, "Current passphrase")}
+                  {passwordInput(newPassphrase, setNewPassphrase, "New passphrase")}
+                  {passwordInput(confirmPassphrase, setConfirmPassphrase, "Confirm new passphrase")}
+                  {newPassphraseError && <p className="text-xs text-rose-600">{newPassphraseError}</p>}
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      onClick={() => runVaultAction(() => changeVaultPassphrase(currentPassphrase, newPassphrase), "Passphrase changed and diary re-encrypted.", true)}
+                      disabled={!currentPassphrase || !canSetPassphrase}
+                      className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Re-encrypt
+                    </button>
+                    <button
+                      onClick={() => runVaultAction(() => disableVault(currentPassphrase), "Encryption turned off.", false)}
+                      disabled={!currentPassphrase || vaultBusy}
+                      className="px-4 py-2 rounded-xl bg-slate-200 text-slate-600 text-sm font-semibold hover:bg-slate-300 disabled:opacity-50"
+                    >
+                      Turn off encryption
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-slate-50 border border-slate-200 rounded-2xl p-4 space-y-2">
+                {passwordInput(newPassphrase, setNewPassphrase, "Choose a passphrase")}
+                {passwordInput(confirmPassphrase, setConfirmPassphrase, "Confirm passphrase")}
+                {newPassphraseError && <p className="text-xs text-rose-600">{newPassphraseError}</p>}
+                <button
+                  onClick={() => runVaultAction(() => enableVault(newPassphrase), "Your diary is now encrypted.", true)}
+                  disabled={!canSetPassphrase}
+                  className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Enable encryption
+                </button>
+              </div>
+            )}
+
+            {vaultBusy && (
+              <p className="mt-3 text-sm text-indigo-600 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Re-encrypting your diary...</p>
+            )}
+            {vaultMessage && (
+              <p className="mt-3 text-sm text-emerald-600 flex items-center gap-2"><CheckCircle2 size={14} /> {vaultMessage}</p>
+            )}
+            {vaultError && (
+              <p className="mt-3 text-sm text-rose-600 flex items-center gap-2"><AlertCircle size={14} /> {vaultError}</p>
+            )}
+          </section>
+
+          {/* Trash */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <Trash2 size={14} /> Trash
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Deleted memories can be restored from the trash until they are removed.</p>
+            <label className="flex items-center justify-between text-sm text-slate-600">
+              Remove deleted memories after
+              <select
+                value={settings.trashRetentionDays}
+                onChange={(e) => onSettingsChange({ ...settings, trashRetentionDays: Number(e.target.value) })}
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {TRASH_RETENTION_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days === 0 ? "Never" : `${days} days`}</option>
+                ))}
+              </select>
+            </label>
+          </section>
+
+          {/* History */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <History size={14} /> Edit History
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Each save keeps a version of the memory. Older versions are trimmed to keep storage small.</p>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Versions kept per memory
+                <select
+                  value={settings.revisions.maxPerEntry}
+                  onChange={(e) => onSettingsChange({ ...settings, revisions: { ...settings.revisions, maxPerEntry: Number(e.target.value) } })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {REVISION_COUNT_OPTIONS.map(count => (
+                    <option key={count} value={count}>{count === 0 ? "All" : `Last ${count}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Forget versions older than
+                <select
+                  value={settings.revisions.maxAgeDays}
+                  onChange={(e) => onSettingsChange({ ...settings, revisions: { ...settings.revisions, maxAgeDays: Number(e.target.value) } })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {REVISION_AGE_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days === 0 ? "Never" : `${days} days`}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </section>
+
+          {/* Photos */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <ImageIcon size={14} /> Photos
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">New photos are resized and compressed before they are kept. Larger and sharper photos use more storage.</p>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Format
+                <select
+                  value={settings.images.format}
+                  onChange={(e) => updateImages({ format: e.target.value as ImageFormat })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {IMAGE_FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>{encodable.has(format) ? label : `${label} (not supported, uses JPEG)`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Longest side
+                <select
+                  value={settings.images.maxDimension}
+                  onChange={(e) => updateImages({ maxDimension: Number(e.target.value) })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {IMAGE_SIZE_OPTIONS.map(size => (
+                    <option key={size} value={size}>{size} px</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Quality
+                <select
+                  value={settings.images.quality}
+                  onChange={(e) => updateImages({ quality: Number(e.target.value) })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {IMAGE_QUALITY_OPTIONS.map(quality => (
+                    <option key={quality} value={quality}>{Math.round(quality * 100)}%</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </section>
+
+          {/* Places */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <MapPin size={14} /> Places
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">How positions become place names, and what the map draws. The offline options never send your location anywhere.</p>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between text-sm text-slate-600">
+                Place names
+                <select
+                  value={settings.location.geocoder}
+                  onChange={(e) => updateLocation({ geocoder: e.target.value as GeocoderKind })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {GEOCODERS.map(({ kind, label }) => (
+                    <option key={kind} value={kind}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.location.mapTiles}
+                  onChange={(e) => updateLocation({ mapTiles: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                Show OpenStreetMap tiles on the map (loaded online)
+              </label>
+            </div>
+          </section>
+
+          {/* Storage */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-2">
+              <HardDrive size={14} /> Storage
+            </h3>
+            <p className="text-sm text-slate-400 mb-4">Space used by photos and voice notes in this browser.</p>
+            {usage ? (
+              <div className="space-y-2 text-sm text-slate-600">
+                <div className="flex justify-between">
+                  <span>Photos and AI images ({usage.images.count})</span>
+                  <span className="font-semibold tabular-nums">{formatBytes(usage.images.bytes)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Voice notes ({usage.audio.count})</span>
+                  <span className="font-semibold tabular-nums">{formatBytes(usage.audio.bytes)}</span>
+                </div>
+                {usage.used !== undefined && usage.quota !== undefined && (
+                  <div className="flex justify-between pt-2 border-t border-slate-100 text-slate-400">
+                    <span>Browser storage used</span>
+                    <span className="tabular-nums">{formatBytes(usage.used)} of {formatBytes(usage.quota)}</span>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Measuring...</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
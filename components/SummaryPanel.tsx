@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DiaryEntry, SummaryScope, ThreadSummary } from '../types';
+import { X, Sparkles, Loader2, AlertCircle, RotateCcw, Download, Trash2, ChevronLeft } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import {
+  RangeSelection,
+  SummaryRange,
+  buildRange,
+  createSummaryRecord,
+  deleteSummary,
+  entriesInRange,
+  loadSummaries,
+  rangeOf,
+  saveSummary,
+  summarizeRange,
+} from '../services/summaryService';
+import { exportSummary } from '../services/exportService';
+import { canSendToAI } from '../services/privacyService';
+
+interface SummaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: DiaryEntry[];
+  knownTags: string[];
+}
+
+const SCOPES: { scope: SummaryScope; label: string }[] = [
+  { scope: 'month', label: 'Month' },
+  { scope: 'quarter', label: 'Quarter' },
+  { scope: 'year', label: 'Year' },
+  { scope: 'custom', label: 'Custom' },
+  { scope: 'tag', label: 'Tag' },
+];
+
+function initialSelection(): RangeSelection {
+  const now = new Date();
+  return {
+    scope: 'month',
+    month: format(now, 'yyyy-MM'),
+    year: now.getFullYear(),
+    quarter: Math.floor(now.getMonth() / 3) + 1,
+    from: format(now, 'yyyy-MM-01'),
+    to: format(now, 'yyyy-MM-dd'),
+    tag: '',
+  };
+}
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ isOpen, onClose, entries, knownTags }) => {
+  const [selection, setSelection] = useState<RangeSelection>(initialSelection);
+  const [summaries, setSummaries] = useState<ThreadSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; retry: () => void } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadSummaries()
+      .then(setSummaries)
+      .catch(err => console.error("Failed to load summaries", err));
+  }, [isOpen]);
+
+  const years = useMemo(() => {
+    const set = new Set<number>([new Date().getFullYear()]);
+    entries.forEach(e => {
+      const d = new Date(e.date);
+      if (isValid(d)) set.add(d.getFullYear());
+    });
+    return [...set].sort((a, b) => b - a);
+  }, [entries]);
+
+  const range = useMemo(() => buildRange(selection, entries), [selection, entries]);
+  // Private entries are never summarized, so they are not counted either
+  const rangeEntries = useMemo(() => range ? entriesInRange(entries, range) : [], [range, entries]);
+  const rangeCount = rangeEntries.filter(canSendToAI).length;
+  const privateCount = rangeEntries.length - rangeCount;
+  const active = summaries.find(s => s.id === activeId) || null;
+  const isBusy = progress !== null;
+
+  const update = (patch: Partial<RangeSelection>) => setSelection(prev => ({ ...prev, ...patch }));
+
+  // Runs a (re)generation; an existing id is overwritten in place
+  const generate = async (target: SummaryRange, id?: string) => {
+    const count = entriesInRange(entries, target).filter(canSendToAI).length;
+    if (count === 0 || isBusy) return;
+    setError(null);
+    setProgress("Preparing...");
+    try {
+      const result = await summarizeRange(entries, target, setProgress);
+      if (result.status !== 'success') {
+        setError({ message: result.message, retry: () => generate(target, id) });
+        return;
+      }
+      const summary = createSummaryRecord(target, result.value, count, id);
+      await saveSummary(summary);
+      setSummaries(prev => [summary, ...prev.filter(s => s.id !== summary.id)]);
+      setActiveId(summary.id);
+    } catch (err) {
+      console.error("Failed to save summary", err);
+      setError({ message: "The summary could not be saved.", retry: () => generate(target, id) });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async (summary: ThreadSummary) => {
+    if (!window.confirm(`Delete the summary "${summary.title}"?`)) return;
+    await deleteSummary(summary.id);
+    setSummaries(prev => prev.filter(s => s.id !== summary.id));
+    if (activeId === summary.id) setActiveId(null);
+  };
+
+  const inputClass = "px-3 py-2 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm";
+
+  const renderPeriodPicker = () => {
+    switch (selection.scope) {
+      case 'month':
+        return <input type="month" value={selection.month} onChange={(e) => update({ month: e.target.value })} className={inputClass} />;
+      case 'quarter':
+        return (
+          <div className="flex gap-2">
+            <select value={selection.quarter} onChange={(e) => update({ quarter: Number(e.target.value) })} className={inputClass}>
+              {[1, 2, 3, 4].map(q => <option key={q} value={q}>Q{q}</option>)}
+            </select>
+            <select value={selection.year} onChange={(e) => update({ year: Number(e.target.value) })} className={inputClass}>
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+        );
+      case 'year':
+        return (
+          <select value={selection.year} onChange={(e) => update({ year: Number(e.target.value) })} className={inputClass}>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        );
+      case 'custom':
+        return (
+          <div className="flex items-center gap-2">
+            <input type="date" value={selection.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} />
+            <span className="text-slate-400 text-sm">to</span>
+            <input type="date" value={selection.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+          </div>
+        );
+      case 'tag':
+        return knownTags.length > 0 ? (
+          <select value={selection.tag} onChange={(e) => update({ tag: e.target.value })} className={inputClass}>
+            <option value="">Choose a tag</option>
+            {knownTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+          </select>
+        ) : (
+          <p className="text-sm text-slate-400">Tag some entries first.</p>
+        );
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm overflow-hidden">
+      <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div className="flex items-center gap-2">
+            {active && (
+              <button onClick={() => setActiveId(null)} className="p-1.5 hover:bg-slate-200 rounded-full transition-colors">
+                <ChevronLeft size={18} className="text-slate-600" />
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-slate-800">{active ? active.title : 'Summarize the Thread'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} className="text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-8">
+          {error && (
+            <div className="bg-rose-50 border border-rose-100 p-4 rounded-2xl flex items-center gap-3 text-rose-700">
+              <AlertCircle size={18} className="shrink-0" />
+              <p className="text-sm font-semibold flex-1">{error.message}</p>
+              <button onClick={error.retry} disabled={isBusy} className="flex items-center gap-1 px-3 py-1.5 bg-white border border-rose-200 rounded-lg text-xs font-bold hover:bg-rose-100 transition-all disabled:opacity-50">
+                <RotateCcw size={12} /> Retry
+              </button>
+            </div>
+          )}
+
+          {active ? (
+            <section>
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">
+                {active.entryCount} {active.entryCount === 1 ? 'entry' : 'entries'} · generated {format(new Date(active.createdAt), 'MMM d, yyyy')}
+              </p>
+              {isBusy ? (
+                <p className="text-sm text-indigo-600 font-semibold flex items-center gap-2"><Loader2 size={16} className="animate-spin" /> {progress}</p>
+              ) : (
+                <p className="text-slate-700 leading-relaxed italic text-lg whitespace-pre-wrap font-serif">"{active.content}"</p>
+              )}
+              <div className="flex flex-wrap gap-2 mt-6">
+                <button
+                  onClick={() => generate(rangeOf(active), active.id)}
+                  disabled={isBusy}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all disabled:opacity-50"
+                >
+                  <RotateCcw size={16} /> Regenerate
+                </button>
+                <button
+                  onClick={() => exportSummary(active)}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-50 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-100 transition-all"
+                >
+                  <Download size={16} /> Export Markdown
+                </button>
+                <button
+                  onClick={() => handleDelete(active)}
+                  className="flex items-center gap-2 px-4 py-2 text-rose-500 rounded-xl text-sm font-bold hover:bg-rose-50 transition-all ml-auto"
+                >
+                  <Trash2 size={16} /> Delete
+                </button>
+              </div>
+            </section>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-1">New summary</h3>
+                <p className="text-sm text-slate-400 mb-4">Long ranges are summarized month by month, then woven together.</p>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {SCOPES.map(({ scope, label }) => (
+                    <button
+                      key={scope}
+                      onClick={() => update({ scope })}
+                      className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${selection.scope === scope ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  {renderPeriodPicker()}
+                  <span className="text-xs font-semibold text-slate-400">
+                    {range ? `${rangeCount} ${rangeCount === 1 ? 'entry' : 'entries'}` : 'Choose a range'}
+                    {range && privateCount > 0 && ` · ${privateCount} private left out`}
+                  </span>
+                </div>
+
+                <button
+                  onClick={() => range && generate(range)}
+                  disabled={!range || rangeCount === 0 || isBusy}
+                  className="mt-5 flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all shadow-lg disabled:opacity-50"
+                >
+                  {isBusy ? <Loader2 size={18} className="animate-spin" /> : <Sparkles size={18} />}
+                  {isBusy ? progress : 'Summarize'}
+                </button>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Saved summaries</h3>
+                {summaries.length === 0 ? (
+                  <p className="text-sm text-slate-400">Summaries you generate are kept here.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {summaries.map(summary => (
+                      <li key={summary.id}>
+                        <button
+                          onClick={() => setActiveId(summary.id)}
+                          className="w-full text-left p-4 bg-slate-50 border border-slate-200 rounded-2xl hover:border-indigo-300 hover:bg-indigo-50 transition-all"
+                        >
+                          <div className="flex items-center justify-between gap-3">
+                            <p className="font-semibold text-slate-700 text-sm">{summary.title}</p>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{summary.scope}</span>
+                          </div>
+                          <p className="text-xs text-slate-400 mt-1 line-clamp-2">{summary.content}</p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SummaryPanel;
@@ -0,0 +1,104 @@
+import React, { useState, useMemo } from 'react';
+import { X, Hash, LucideIcon } from 'lucide-react';
+import { normalizeTag } from '../constants';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // tags already used elsewhere in the diary
+  // Overrides so the same input can collect other kinds of labels, e.g. thread names
+  normalize?: (raw: string) => string;
+  prefix?: string;
+  icon?: LucideIcon;
+  placeholder?: string;
+}
+
+const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  onChange,
+  suggestions,
+  normalize = normalizeTag,
+  prefix = '#',
+  icon: Icon = Hash,
+  placeholder = "Add tags (press Enter)"
+}) => {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const matches = useMemo(() => {
+    const query = normalize(draft).toLowerCase();
+    if (!query) return [];
+    return suggestions
+      .filter(tag => tag.toLowerCase().includes(query) && !tags.includes(tag))
+      .slice(0, 6);
+  }, [draft, suggestions, tags]);
+
+  const addTag = (raw: string) => {
+    const tag = normalize(raw);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      addTag(matches[highlighted] ?? draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 transition-all">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-full text-xs font-semibold">
+            {prefix}{tag}
+            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="p-0.5 hover:bg-indigo-100 rounded-full">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <div className="flex items-center gap-1 flex-grow min-w-[8rem]">
+          <Icon size={14} className="text-slate-300" />
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => { setDraft(e.target.value); setHighlighted(0); }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => draft.trim() && addTag(draft)}
+            placeholder={tags.length === 0 ? placeholder : ""}
+            className="flex-grow bg-transparent outline-none text-sm text-slate-700 py-1"
+          />
+        </div>
+      </div>
+
+      {matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+          {matches.map((tag, idx) => (
+            <li key={tag}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur, so the suggestion wins
+                onMouseDown={(e) => { e.preventDefault(); addTag(tag); }}
+                className={`w-full text-left px-4 py-2 text-sm ${idx === highlighted ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                {prefix}{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
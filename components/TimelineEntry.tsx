@@ -1,8 +1,15 @@
 
 import React, { useState } from 'react';
 import { DiaryEntry } from '../types';
-import { Calendar, Trash2, Edit3, Sparkles, X, Maximize2 } from 'lucide-react';
+import { Calendar, Trash2, Edit3, Sparkles, X, Maximize2, AlertCircle, RotateCcw, GitBranch, Link2, CornerDownRight, History, MapPin, Users, Landmark, CalendarHeart, WandSparkles, ShieldOff } from 'lucide-react';
 import { format, isValid } from 'date-fns';
+import { getMood } from '../constants';
+import HighlightedText from './HighlightedText';
+import MarkdownContent from './MarkdownContent';
+import VoiceNoteList from './VoiceNoteList';
+import { entryLabel } from '../services/linkService';
+import { hasCoordinates, locationLabel } from '../services/locationService';
+import { metadataOf, pendingSuggestions, suggestionCount } from '../services/enrichmentService';
 
 interface TimelineEntryProps {
   entry: DiaryEntry;
@@ -11,6 +18,17 @@ interface TimelineEntryProps {
   onEdit: (entry: DiaryEntry) => void;
   onReflect: (id: string) => void;
   isReflecting: boolean;
+  aiError?: string;
+  onTagClick?: (tag: string) => void;
+  onMoodClick?: (mood: string) => void;
+  highlightTerms?: string[];
+  linkedEntries?: DiaryEntry[]; // entries this one links to
+  backlinkEntries?: DiaryEntry[]; // entries that link to this one
+  onThreadClick?: (thread: string) => void;
+  onOpenEntry?: (id: string) => void;
+  onShowHistory?: (entry: DiaryEntry) => void;
+  onPlaceClick?: (id: string) => void;
+  isFocused?: boolean;
 }
 
 const TimelineEntry: React.FC<TimelineEntryProps> = ({ 
@@ -19,9 +37,33 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
   onDelete, 
   onEdit, 
   onReflect,
-  isReflecting 
+  isReflecting,
+  aiError,
+  onTagClick,
+  onMoodClick,
+  highlightTerms = [],
+  linkedEntries = [],
+  backlinkEntries = [],
+  onThreadClick,
+  onOpenEntry,
+  onShowHistory,
+  onPlaceClick,
+  isFocused = false
 }) => {
   const [activeImage, setActiveImage] = useState<string | null>(null);
+  const activeInfo = activeImage ? entry.photoInfo?.[entry.images.indexOf(activeImage)] : null;
+  const takenAt = activeInfo?.takenAt ? new Date(activeInfo.takenAt) : null;
+  const photoCaption = [
+    takenAt && isValid(takenAt) && `Taken ${format(takenAt, "MMM d, yyyy 'at' HH:mm")}`,
+    activeInfo?.camera,
+  ].filter(Boolean).join(' · ');
+
+  const entities = [
+    ...(entry.people || []).map(name => ({ key: `person:${name}`, name, icon: Users })),
+    ...(entry.places || []).map(name => ({ key: `place:${name}`, name, icon: Landmark })),
+    ...(entry.events || []).map(name => ({ key: `event:${name}`, name, icon: CalendarHeart })),
+  ];
+  const suggestionTotal = suggestionCount(pendingSuggestions(entry.enrichment, metadataOf(entry)));
 
   // Defensive helper for date formatting to prevent app crashes on corrupted data
   const safeFormat = (dateStr: string, formatStr: string) => {
@@ -110,8 +152,25 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
     );
   };
 
+  const renderLinkList = (label: string, Icon: typeof Link2, linked: DiaryEntry[]) => (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+        <Icon size={12} /> {label}
+      </span>
+      {linked.map(other => (
+        <button
+          key={other.id}
+          onClick={() => onOpenEntry?.(other.id)}
+          className="max-w-full truncate px-2.5 py-0.5 rounded-full bg-slate-50 border border-slate-200 text-xs text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+        >
+          {entryLabel(other)}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
-    <div className="flex group">
+    <div id={`entry-${entry.id}`} className="flex group scroll-mt-28">
       {/* Thread Line Decorator */}
       <div className="flex flex-col items-center mr-4 md:mr-6">
         <div className="w-10 h-10 rounded-full bg-white border-2 border-indigo-500 flex items-center justify-center shadow-sm z-10 transition-transform group-hover:scale-110">
@@ -122,25 +181,56 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
 
       {/* Content Card */}
       <div className="flex-grow pb-12">
-        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-5 md:p-6 transition-all hover:shadow-md">
+        <div className={`bg-white rounded-2xl shadow-sm border p-5 md:p-6 transition-all hover:shadow-md ${isFocused ? 'border-indigo-300 ring-4 ring-indigo-500/10' : 'border-slate-100'}`}>
           <div className="flex justify-between items-start mb-4">
             <div>
               <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-1">
                 {safeFormat(entry.date, 'EEEE, MMMM do, yyyy')}
               </p>
-              <h3 className="text-xl font-semibold text-slate-800">
+              <h3 className="text-xl font-semibold text-slate-800 flex items-center gap-2">
                 {safeFormat(entry.date, 'HH:mm')}
+                {entry.isPrivate && (
+                  <span className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-500 rounded-full text-[10px] font-bold uppercase tracking-wider" title="Never sent to the AI">
+                    <ShieldOff size={10} /> Private
+                  </span>
+                )}
               </h3>
+              {entry.location && (
+                onPlaceClick && hasCoordinates(entry.location) ? (
+                  <button
+                    onClick={() => onPlaceClick(entry.id)}
+                    className="mt-1 flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-indigo-600 transition-colors"
+                    title="Show on map"
+                  >
+                    <MapPin size={12} /> {locationLabel(entry.location)}
+                  </button>
+                ) : (
+                  <p className="mt-1 flex items-center gap-1 text-xs font-semibold text-slate-400">
+                    <MapPin size={12} /> {locationLabel(entry.location)}
+                  </p>
+                )
+              )}
             </div>
             <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-              <button 
-                onClick={() => onReflect(entry.id)}
-                disabled={isReflecting}
-                className={`p-2 rounded-lg transition-all ${isReflecting ? 'bg-indigo-100 text-indigo-600' : 'text-indigo-500 hover:bg-indigo-50'}`}
-                title="AI Reflection & Vision"
-              >
-                <Sparkles size={18} className={isReflecting ? "animate-spin" : ""} />
-              </button>
+              {!entry.isPrivate && (
+                <button 
+                  onClick={() => onReflect(entry.id)}
+                  disabled={isReflecting}
+                  className={`p-2 rounded-lg transition-all ${isReflecting ? 'bg-indigo-100 text-indigo-600' : 'text-indigo-500 hover:bg-indigo-50'}`}
+                  title="AI Reflection & Vision"
+                >
+                  <Sparkles size={18} className={isReflecting ? "animate-spin" : ""} />
+                </button>
+              )}
+              {onShowHistory && (
+                <button 
+                  onClick={() => onShowHistory(entry)}
+                  className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
+                  title="History"
+                >
+                  <History size={18} />
+                </button>
+              )}
               <button 
                 onClick={() => onEdit(entry)}
                 className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
@@ -156,21 +246,80 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
             </div>
           </div>
 
-          <div className="prose prose-slate max-w-none mb-4">
-            <p className="text-slate-700 whitespace-pre-wrap leading-relaxed">
-              {entry.content}
-            </p>
+          {(entry.mood || (entry.tags && entry.tags.length > 0) || (entry.threads && entry.threads.length > 0) || entities.length > 0 || suggestionTotal > 0) && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {entry.mood && (
+                <button
+                  onClick={() => onMoodClick?.(entry.mood!)}
+                  className={`px-2.5 py-0.5 rounded-full border text-xs font-semibold flex items-center gap-1 ${getMood(entry.mood).chipClass}`}
+                >
+                  <span>{getMood(entry.mood).emoji}</span> {getMood(entry.mood).label}
+                </button>
+              )}
+              {entry.tags?.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => onTagClick?.(tag)}
+                  className="px-2.5 py-0.5 rounded-full bg-slate-50 border border-slate-200 text-xs font-semibold text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+                >
+                  #{tag}
+                </button>
+              ))}
+              {entry.threads?.map(thread => (
+                <button
+                  key={thread}
+                  onClick={() => onThreadClick?.(thread)}
+                  className="px-2.5 py-0.5 rounded-full bg-indigo-50 border border-indigo-100 text-xs font-semibold text-indigo-600 hover:bg-indigo-100 transition-colors flex items-center gap-1"
+                >
+                  <GitBranch size={12} /> {thread}
+                </button>
+              ))}
+              {entities.map(({ key, name, icon: Icon }) => (
+                <span key={key} className="px-2.5 py-0.5 rounded-full bg-slate-50 border border-slate-200 text-xs font-semibold text-slate-500 flex items-center gap-1">
+                  <Icon size={12} /> {name}
+                </span>
+              ))}
+              {suggestionTotal > 0 && (
+                <button
+                  onClick={() => onEdit(entry)}
+                  className="px-2.5 py-0.5 rounded-full bg-violet-50 border border-violet-200 text-xs font-semibold text-violet-600 hover:bg-violet-100 transition-colors flex items-center gap-1"
+                  title="Review AI suggestions"
+                >
+                  <WandSparkles size={12} /> {suggestionTotal} {suggestionTotal === 1 ? 'suggestion' : 'suggestions'}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="max-w-none mb-4">
+            <MarkdownContent source={entry.content} highlightTerms={highlightTerms} />
           </div>
 
           <div className="mb-4">
             {renderImageGrid()}
           </div>
 
-          {(entry.aiReflection || entry.aiImage || isReflecting) && (
+          {entry.voiceNotes && entry.voiceNotes.length > 0 && (
+            <div className="mb-4">
+              <VoiceNoteList notes={entry.voiceNotes} />
+            </div>
+          )}
+
+          {(linkedEntries.length > 0 || backlinkEntries.length > 0) && (
+            <div className="space-y-2 pt-4 border-t border-slate-100">
+              {linkedEntries.length > 0 && renderLinkList('Links to', Link2, linkedEntries)}
+              {backlinkEntries.length > 0 && renderLinkList('Linked from', CornerDownRight, backlinkEntries)}
+            </div>
+          )}
+
+          {(entry.aiReflection || entry.aiImage || isReflecting || aiError) && (
             <div className="mt-6 bg-gradient-to-br from-indigo-50 to-violet-50 border border-indigo-100 rounded-2xl p-4 md:p-6 overflow-hidden relative">
               <div className="flex items-center gap-2 mb-3">
                 <Sparkles size={16} className="text-indigo-600" />
                 <span className="text-xs font-bold text-indigo-600 uppercase tracking-tighter">AI Visual Reflection</span>
+                {entry.aiReflectionTemplate && entry.aiReflection && !isReflecting && (
+                  <span className="text-[10px] font-semibold text-indigo-400" title="Reflection persona">{entry.aiReflectionTemplate.name}</span>
+                )}
               </div>
               
               {isReflecting ? (
@@ -181,9 +330,21 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
                 </div>
               ) : (
                 <div className="flex flex-col gap-4">
+                  {aiError && (
+                    <div className="flex items-center gap-3 bg-white/70 border border-rose-100 rounded-xl px-4 py-3 text-rose-700">
+                      <AlertCircle size={16} className="shrink-0" />
+                      <p className="text-sm font-medium flex-1">{aiError}</p>
+                      <button
+                        onClick={() => onReflect(entry.id)}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-white border border-rose-200 rounded-lg text-xs font-bold hover:bg-rose-50 transition-all"
+                      >
+                        <RotateCcw size={12} /> Retry
+                      </button>
+                    </div>
+                  )}
                   {entry.aiReflection && (
                     <p className="text-sm md:text-base text-indigo-900 italic leading-relaxed">
-                      "{entry.aiReflection}"
+                      "<HighlightedText text={entry.aiReflection} terms={highlightTerms} />"
                     </p>
                   )}
                   {entry.aiImage && (
@@ -195,7 +356,7 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
                         onClick={() => setActiveImage(entry.aiImage!)}
                       />
                       <div className="absolute top-2 right-2 bg-black/20 backdrop-blur-md px-2 py-1 rounded text-[10px] text-white font-bold">
-                        AI VISION
+                        {entry.aiImageTemplate?.name.toUpperCase() || "AI VISION"}
                       </div>
                     </div>
                   )}
@@ -221,6 +382,11 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
             className="max-w-[95vw] max-h-[90vh] object-contain rounded-lg shadow-2xl animate-in zoom-in-95 duration-300" 
             onClick={(e) => e.stopPropagation()}
           />
+          {photoCaption && (
+            <p className="absolute bottom-6 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/50 text-white/90 text-sm rounded-full">
+              {photoCaption}
+            </p>
+          )}
         </div>
       )}
     </div>
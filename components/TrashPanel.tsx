@@ -0,0 +1,106 @@
+import React from 'react';
+import { DiaryEntry } from '../types';
+import { X, Trash2, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow, isValid } from 'date-fns';
+import { daysUntilPurge } from '../services/trashService';
+import { entrySnippet } from '../services/linkService';
+
+interface TrashPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: DiaryEntry[]; // trashed entries only
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onPurge: (ids: string[]) => void;
+}
+
+const TrashPanel: React.FC<TrashPanelProps> = ({ isOpen, onClose, entries, retentionDays, onRestore, onPurge }) => {
+  if (!isOpen) return null;
+
+  const sorted = [...entries].sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+
+  const handlePurge = (entry: DiaryEntry) => {
+    if (window.confirm("Delete this memory forever? This cannot be undone.")) onPurge([entry.id]);
+  };
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete ${entries.length} ${entries.length === 1 ? 'memory' : 'memories'}? This cannot be undone.`)) {
+      onPurge(entries.map(e => e.id));
+    }
+  };
+
+  const describeDeletion = (entry: DiaryEntry) => {
+    const deleted = new Date(entry.deletedAt!);
+    const ago = isValid(deleted) ? `Deleted ${formatDistanceToNow(deleted, { addSuffix: true })}` : 'Deleted';
+    const days = daysUntilPurge(entry, retentionDays);
+    if (days === null) return ago;
+    return `${ago} · removed ${days === 0 ? 'today' : `in ${days} ${days === 1 ? 'day' : 'days'}`}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/70 backdrop-blur-sm overflow-hidden">
+      <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-800">Trash</h2>
+          <div className="flex items-center gap-2">
+            {entries.length > 0 && (
+              <button onClick={handleEmpty} className="px-3 py-1.5 text-rose-500 hover:bg-rose-50 rounded-xl text-sm font-bold transition-colors">
+                Empty trash
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+              <X size={20} className="text-slate-600" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-grow">
+          <p className="text-sm text-slate-400 mb-4">
+            {retentionDays > 0
+              ? `Deleted memories are removed for good after ${retentionDays} days.`
+              : "Deleted memories stay here until you remove them."}
+          </p>
+
+          {sorted.length === 0 ? (
+            <div className="text-center py-16">
+              <Trash2 className="text-slate-200 mx-auto mb-3" size={36} />
+              <p className="text-slate-400 font-medium">The trash is empty.</p>
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {sorted.map(entry => {
+                const date = new Date(entry.date);
+                return (
+                  <li key={entry.id} className="flex items-start gap-3 p-4 bg-slate-50 border border-slate-200 rounded-2xl">
+                    <div className="flex-grow min-w-0">
+                      <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-1">
+                        {isValid(date) ? format(date, 'MMMM d, yyyy') : 'Date Unknown'}
+                      </p>
+                      <p className="text-sm text-slate-600 line-clamp-2">{entrySnippet(entry, 30) || 'Empty entry'}</p>
+                      <p className="text-xs text-slate-400 mt-1">{describeDeletion(entry)}</p>
+                    </div>
+                    <button
+                      onClick={() => onRestore(entry.id)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:border-indigo-300 hover:text-indigo-600 transition-all shrink-0"
+                    >
+                      <RotateCcw size={12} /> Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurge(entry)}
+                      className="p-2 text-rose-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors shrink-0"
+                      title="Delete forever"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
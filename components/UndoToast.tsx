@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 6000 }) => {
+  // Kept in a ref so a re-render of the parent does not restart the countdown
+  const dismissRef = useRef(onDismiss);
+  dismissRef.current = onDismiss;
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => dismissRef.current(), durationMs);
+    return () => window.clearTimeout(timer);
+  }, [message, durationMs]);
+
+  return (
+    <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 pl-5 pr-2 py-2 bg-slate-900 text-white rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-4">
+      <p className="text-sm font-medium">{message}</p>
+      <button onClick={onUndo} className="flex items-center gap-1.5 px-3 py-1.5 text-indigo-300 hover:text-white hover:bg-white/10 rounded-xl text-sm font-bold transition-colors">
+        <Undo2 size={16} /> Undo
+      </button>
+      <button onClick={onDismiss} className="p-1.5 text-slate-400 hover:text-white hover:bg-white/10 rounded-full transition-colors">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { VoiceNote } from '../types';
+import { Mic, X, Loader2, Sparkles } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import { formatDuration } from '../services/dateUtils';
+
+interface VoiceNoteListProps {
+  notes: VoiceNote[];
+  onRemove?: (id: string) => void;
+  onTranscribe?: (note: VoiceNote) => void;
+  transcribingId?: string | null;
+}
+
+const VoiceNoteList: React.FC<VoiceNoteListProps> = ({ notes, onRemove, onTranscribe, transcribingId }) => {
+  if (notes.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {notes.map(note => {
+        const recorded = new Date(note.recordedAt);
+        return (
+          <li key={note.id} className="p-3 bg-slate-50 border border-slate-200 rounded-2xl">
+            <div className="flex items-center gap-3">
+              <Mic size={14} className="text-indigo-400 shrink-0" />
+              <audio src={note.url} controls preload="metadata" className="h-9 flex-grow min-w-0" />
+              <span className="text-xs text-slate-400 font-mono tabular-nums shrink-0">{formatDuration(note.durationMs)}</span>
+              {onTranscribe && (
+                <button
+                  type="button"
+                  onClick={() => onTranscribe(note)}
+                  disabled={!!transcribingId}
+                  className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-md transition-all disabled:opacity-40 shrink-0"
+                  title="Add the spoken words to your thoughts"
+                >
+                  {transcribingId === note.id ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />} Transcribe
+                </button>
+              )}
+              {onRemove && (
+                <button type="button" onClick={() => onRemove(note.id)} className="p-1 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-md shrink-0" title="Remove voice note">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+            {isValid(recorded) && (
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1 ml-7">
+                Recorded {format(recorded, "MMM d 'at' HH:mm")}
+              </p>
+            )}
+            {note.transcript && (
+              <p className="text-sm text-slate-500 italic mt-2 ml-7 whitespace-pre-wrap">{note.transcript}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default VoiceNoteList;
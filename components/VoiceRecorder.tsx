@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Mic, Square, Loader2, AlertCircle } from 'lucide-react';
+import { VoiceNote } from '../types';
+import { formatDuration } from '../services/dateUtils';
+
+interface VoiceRecorderProps {
+  onRecorded: (note: VoiceNote) => void;
+  disabled?: boolean;
+}
+
+// Recordings stop on their own after this long, to keep clips a sensible size
+const MAX_RECORDING_MS = 10 * 60 * 1000;
+
+// First container the browser can record, Safari only does MP4
+const PREFERRED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+function pickMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onRecorded, disabled }) => {
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const supported = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  // Closing the editor mid-recording discards the clip and releases the microphone
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    recorder.stream.getTracks().forEach(t => t.stop());
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = window.setInterval(() => {
+      const ms = Date.now() - startedAtRef.current;
+      setElapsed(ms);
+      if (ms >= MAX_RECORDING_MS) recorderRef.current?.stop();
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [isRecording]);
+
+  const start = async () => {
+    setError(null);
+    setIsStarting(true);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      const recordedAt = new Date().toISOString();
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(t => t.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+        if (blob.size === 0) return;
+        onRecordedRef.current({
+          id: crypto.randomUUID(),
+          url: URL.createObjectURL(blob),
+          recordedAt,
+          durationMs: Date.now() - startedAtRef.current,
+        });
+      };
+
+      recorderRef.current = recorder;
+      recorder.start(1000);
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err: any) {
+      console.error("Recording failed to start", err);
+      setError(err?.name === 'NotAllowedError'
+        ? "Microphone access was blocked. Allow it in your browser to record."
+        : "The microphone could not be started.");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!supported) {
+    return <p className="text-xs text-slate-400">Voice notes aren't supported in this browser.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {isRecording ? (
+        <button
+          type="button"
+          onClick={() => recorderRef.current?.stop()}
+          className="flex items-center gap-2 px-4 py-2 bg-rose-500 text-white rounded-lg text-sm font-semibold hover:bg-rose-600 transition-colors"
+        >
+          <Square size={12} fill="currentColor" /> Stop
+          <span className="tabular-nums font-mono text-xs opacity-90">{formatDuration(elapsed)}</span>
+          <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={start}
+          disabled={disabled || isStarting}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg text-sm font-semibold hover:bg-indigo-100 transition-colors disabled:opacity-50"
+        >
+          {isStarting ? <Loader2 size={14} className="animate-spin" /> : <Mic size={14} />} Record
+        </button>
+      )}
+      {error && (
+        <p className="text-xs text-rose-600 font-semibold flex items-center gap-1.5">
+          <AlertCircle size={12} /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceRecorder;
@@ -0,0 +1,92 @@
+import React, { useState, useMemo } from 'react';
+import { DiaryEntry } from '../types';
+import { CalendarClock, X, AlarmClock } from 'lucide-react';
+import { format } from 'date-fns';
+import { getMood } from '../constants';
+import { entrySnippet } from '../services/linkService';
+import {
+  weeklyDigest,
+  weekKeyOf,
+  loadDigestState,
+  saveDigestState,
+  isDigestHidden,
+  snoozeDigest,
+  DigestState,
+} from '../services/resurfaceService';
+
+interface WeeklyDigestProps {
+  entries: DiaryEntry[];
+  onOpenEntry: (id: string) => void;
+}
+
+const SNOOZE_DAYS = 2;
+
+const WeeklyDigest: React.FC<WeeklyDigestProps> = ({ entries, onOpenEntry }) => {
+  const [state, setState] = useState<DigestState>(loadDigestState);
+
+  const weekKey = weekKeyOf(new Date());
+  const digest = useMemo(() => weeklyDigest(entries), [entries, weekKey]);
+
+  const update = (next: DigestState) => {
+    setState(next);
+    saveDigestState(next);
+  };
+
+  if (digest.entries.length === 0 || isDigestHidden(state, digest.weekKey)) return null;
+
+  return (
+    <section className="bg-gradient-to-br from-indigo-50 to-violet-50 border border-indigo-100 rounded-[2rem] p-5 md:p-6 mb-8">
+      <div className="flex items-start gap-3 mb-4">
+        <div className="w-10 h-10 bg-white rounded-2xl flex items-center justify-center shrink-0 shadow-sm">
+          <CalendarClock size={20} className="text-indigo-500" />
+        </div>
+        <div className="flex-grow">
+          <h3 className="text-lg font-black text-indigo-900">This week, in years past</h3>
+          <p className="text-xs text-indigo-400 font-semibold">Your weekly digest of older memories</p>
+        </div>
+        <button
+          onClick={() => update(snoozeDigest(state, SNOOZE_DAYS))}
+          className="p-2 text-indigo-300 hover:text-indigo-600 hover:bg-white rounded-full transition-colors"
+          title={`Remind me in ${SNOOZE_DAYS} days`}
+        >
+          <AlarmClock size={16} />
+        </button>
+        <button
+          onClick={() => update({ ...state, dismissedWeek: digest.weekKey })}
+          className="p-2 text-indigo-300 hover:text-indigo-600 hover:bg-white rounded-full transition-colors"
+          title="Dismiss until next week"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {digest.entries.map(entry => {
+          const date = new Date(entry.date);
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onOpenEntry(entry.id)}
+                className="w-full text-left flex items-center gap-3 p-3 bg-white/70 hover:bg-white rounded-xl transition-colors"
+              >
+                {entry.images[0] ? (
+                  <img src={entry.images[0]} alt="" className="w-12 h-12 object-cover rounded-lg shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 rounded-lg bg-indigo-100/60 flex items-center justify-center text-lg shrink-0">
+                    {entry.mood ? getMood(entry.mood).emoji : format(date, 'd')}
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <p className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">{format(date, 'EEE, MMM d, yyyy')}</p>
+                  <p className="text-sm text-slate-600 truncate">{entrySnippet(entry, 16) || 'Untitled'}</p>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default WeeklyDigest;
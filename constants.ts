@@ -0,0 +1,34 @@
+export interface MoodOption {
+  value: string;
+  label: string;
+  emoji: string;
+  chipClass: string; // Tailwind classes for the chip when shown/selected
+  barClass: string; // solid fill for charts
+  valence: number; // from -2 (low) to 2 (high), for charting mood over time
+}
+
+export const MOODS: MoodOption[] = [
+  { value: 'joyful', label: 'Joyful', emoji: '😄', chipClass: 'bg-amber-50 text-amber-700 border-amber-200', barClass: 'bg-amber-400', valence: 2 },
+  { value: 'grateful', label: 'Grateful', emoji: '🙏', chipClass: 'bg-emerald-50 text-emerald-700 border-emerald-200', barClass: 'bg-emerald-400', valence: 2 },
+  { value: 'calm', label: 'Calm', emoji: '😌', chipClass: 'bg-sky-50 text-sky-700 border-sky-200', barClass: 'bg-sky-400', valence: 1 },
+  { value: 'hopeful', label: 'Hopeful', emoji: '🌱', chipClass: 'bg-lime-50 text-lime-700 border-lime-200', barClass: 'bg-lime-400', valence: 1 },
+  { value: 'tired', label: 'Tired', emoji: '😴', chipClass: 'bg-slate-100 text-slate-600 border-slate-200', barClass: 'bg-slate-400', valence: -1 },
+  { value: 'anxious', label: 'Anxious', emoji: '😟', chipClass: 'bg-orange-50 text-orange-700 border-orange-200', barClass: 'bg-orange-400', valence: -1 },
+  { value: 'sad', label: 'Sad', emoji: '😢', chipClass: 'bg-blue-50 text-blue-700 border-blue-200', barClass: 'bg-blue-400', valence: -2 },
+  { value: 'angry', label: 'Angry', emoji: '😠', chipClass: 'bg-rose-50 text-rose-700 border-rose-200', barClass: 'bg-rose-400', valence: -2 },
+];
+
+// Falls back to a neutral chip for moods written by older versions or imports
+export function getMood(value: string): MoodOption {
+  return MOODS.find(m => m.value === value)
+    || { value, label: value, emoji: '💭', chipClass: 'bg-violet-50 text-violet-700 border-violet-200', barClass: 'bg-violet-400', valence: 0 };
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+// Thread names are shown as written, so only whitespace is tidied
+export function normalizeThread(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,62 @@
+import { AIProviderSettings } from '../types';
+
+export type AIErrorKind = 'missing-key' | 'rate-limited' | 'safety-blocked' | 'network' | 'disabled' | 'failed';
+
+/**
+ * Thrown by providers when they can tell why a request failed. Anything else
+ * thrown is classified by the aiService facade.
+ */
+export class AIProviderError extends Error {
+  constructor(public readonly kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+// One earlier message in a conversation about the diary
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// A template chosen in settings, with `{date}` and `{content}` still to fill in
+export interface PromptStyle {
+  template: string;
+  language: string; // empty leaves the language to the model
+}
+
+/**
+ * Contract every AI backend implements. Providers throw on failure; the
+ * aiService facade turns that into a typed result for the UI.
+ */
+export interface AIProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  generateReflection(content: string, date: string, style: PromptStyle): Promise<string>;
+  // Returns a data URL, or null when the backend has no image support
+  generateImage(content: string, date: string, style: PromptStyle): Promise<string | null>;
+  // `period` describes the stretch of time, e.g. "March 2025"
+  generateSummary(entries: string[], period?: string): Promise<string>;
+  // Merges summaries of consecutive stretches into one for the whole period
+  combineSummaries(summaries: string[], period: string): Promise<string>;
+  // Indexes of the candidates that are about the same things as `content`
+  findRelated(content: string, candidates: string[]): Promise<number[]>;
+  // Returns the spoken text, or null when the backend has no speech support
+  transcribeAudio(audio: Blob): Promise<string | null>;
+  // Answers from the numbered excerpts only, citing them as [1], [2]...
+  answerQuestion(question: string, excerpts: string[], history: ChatTurn[]): Promise<string>;
+  // Mood, tags and named entities as an object shaped by enrichmentSchema, not yet validated
+  analyzeEntry(content: string, moods: string[], knownTags: string[]): Promise<unknown>;
+}
+
+export type AIProviderFactory = (settings: AIProviderSettings) => AIProvider;
+
+/**
+ * Maps an HTTP status from a provider API onto an error kind.
+ */
+export function errorKindForStatus(status: number): AIErrorKind {
+  if (status === 401 || status === 403) return 'missing-key';
+  if (status === 429) return 'rate-limited';
+  if (status >= 500) return 'network';
+  return 'failed';
+}
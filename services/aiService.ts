@@ -0,0 +1,168 @@
+import { AIProviderKind, AIProviderSettings, PromptTemplate } from '../types';
+import { AIErrorKind, AIProvider, AIProviderError, AIProviderFactory, ChatTurn } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { DEFAULT_SETTINGS } from './settingsService';
+import { toPlainText } from './markdownService';
+import { isAIEnabled, recordAIRequest, redact, restoreRedacted } from './privacyService';
+import { promptStyle } from './templateService';
+
+const PROVIDERS: Record<AIProviderKind, AIProviderFactory> = {
+  'gemini': createGeminiProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'mock': createMockProvider,
+};
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+
+// Only these are worth retrying; the others need the user to change something
+const TRANSIENT_ERRORS: AIErrorKind[] = ['rate-limited', 'network'];
+
+export type AIResult<T> =
+  | { status: 'success'; value: T }
+  | { status: AIErrorKind; message: string };
+
+let provider: AIProvider = createGeminiProvider(DEFAULT_SETTINGS.ai);
+
+/**
+ * Switches the backend used by every AI feature. Called whenever the AI
+ * settings change.
+ */
+export function configureAIProvider(settings: AIProviderSettings) {
+  const factory = PROVIDERS[settings.kind] || createGeminiProvider;
+  provider = factory(settings);
+}
+
+export function getAIProvider(): AIProvider {
+  return provider;
+}
+
+/**
+ * User-facing explanation for a failed AI call, phrased as a next step.
+ */
+export function describeAIError(kind: AIErrorKind): string {
+  switch (kind) {
+    case 'missing-key':
+      return "AI isn't set up yet. Add an API key or pick another provider in Settings.";
+    case 'rate-limited':
+      return "The AI is busy right now. Wait a minute and try again.";
+    case 'safety-blocked':
+      return "The AI declined to respond to this content.";
+    case 'network':
+      return "Couldn't reach the AI service. Check your connection and try again.";
+    case 'disabled':
+      return "AI features are turned off. You can turn them back on in Settings.";
+    default:
+      return "The AI couldn't produce a response. Try again.";
+  }
+}
+
+function classifyError(error: any): AIErrorKind {
+  if (error instanceof AIProviderError) return error.kind;
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return 'network';
+
+  const text = `${error?.status ?? ''} ${error?.message ?? ''}`;
+  if (/\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(text)) return 'rate-limited';
+  if (/\b(401|403)\b|API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text)) return 'missing-key';
+  if (/SAFETY|blocked/i.test(text)) return 'safety-blocked';
+  if (/\b5\d\d\b|UNAVAILABLE|network|fetch|timeout/i.test(text)) return 'network';
+  return 'failed';
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a provider call, retrying transient failures with exponential backoff
+ * (1s, 2s, 4s plus jitter), and reports the outcome as a typed result.
+ * `texts` is everything the call sends: it is redacted when the user asked
+ * for that and logged before anything leaves the device.
+ */
+async function run<T>(
+  label: string,
+  texts: string[],
+  call: (texts: string[]) => Promise<T>,
+  isEmpty: (value: T) => boolean = () => false,
+  attachment?: string
+): Promise<AIResult<T>> {
+  if (!isAIEnabled()) {
+    return { status: 'disabled', message: describeAIError('disabled') };
+  }
+  if (!provider.isConfigured()) {
+    return { status: 'missing-key', message: describeAIError('missing-key') };
+  }
+
+  const redaction = redact(texts);
+  recordAIRequest(label, provider.name, redaction.texts, redaction.count, attachment);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const value = restoreRedacted(await call(redaction.texts), redaction);
+      if (isEmpty(value)) throw new AIProviderError('failed', `${provider.name} returned an empty ${label}.`);
+      return { status: 'success', value };
+    } catch (error: any) {
+      const kind = classifyError(error);
+      console.warn(`${provider.name} ${label} error (attempt ${attempt}, ${kind}):`, error?.message);
+      if (!TRANSIENT_ERRORS.includes(kind) || attempt >= MAX_ATTEMPTS) {
+        return { status: kind, message: describeAIError(kind) };
+      }
+      await sleep(BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250);
+    }
+  }
+}
+
+// Entries are Markdown; providers only ever see the plain text so formatting does not leak into replies.
+// `template` is the reflection persona or image style to use.
+export function generateEntryReflection(content: string, date: string, template: PromptTemplate): Promise<AIResult<string>> {
+  const text = toPlainText(content);
+  return run('reflection', [text], ([t]) => provider.generateReflection(t, date, promptStyle(template)), reflection => !reflection.trim());
+}
+
+// A successful result may still be null when the provider cannot make images
+export function generateReflectionImage(content: string, date: string, template: PromptTemplate): Promise<AIResult<string | null>> {
+  const text = toPlainText(content);
+  return run('image', [text], ([t]) => provider.generateImage(t, date, promptStyle(template)));
+}
+
+// Goes through the same checks and log as every other request
+export function testConnection(template: PromptTemplate): Promise<AIResult<string>> {
+  const text = "Testing the connection to my diary assistant.";
+  return run('connection test', [text], ([t]) => provider.generateReflection(t, new Date().toISOString(), promptStyle(template)));
+}
+
+export function generateSummary(entries: string[], period?: string): Promise<AIResult<string>> {
+  return run('summary', entries, texts => provider.generateSummary(texts, period), text => !text.trim());
+}
+
+export function findRelatedEntries(content: string, candidates: string[]): Promise<AIResult<number[]>> {
+  return run('link suggestion', [content, ...candidates], ([c, ...rest]) => provider.findRelated(c, rest));
+}
+
+// A successful result is null when the provider cannot transcribe audio
+export function transcribeVoiceNote(audio: Blob): Promise<AIResult<string | null>> {
+  // Audio cannot be redacted, so only its size is noted in the log
+  return run('transcription', [], () => provider.transcribeAudio(audio), text => text !== null && !text.trim(),
+    `Audio recording (${Math.max(1, Math.round(audio.size / 1024))} KB)`);
+}
+
+// Only the excerpts and the conversation are sent, never the whole diary
+export function answerFromExcerpts(question: string, excerpts: string[], history: ChatTurn[] = []): Promise<AIResult<string>> {
+  const texts = [question, ...excerpts, ...history.map(turn => turn.text)];
+  return run('answer', texts, ([q, ...rest]) => provider.answerQuestion(
+    q,
+    rest.slice(0, excerpts.length),
+    history.map((turn, idx) => ({ ...turn, text: rest[excerpts.length + idx] }))
+  ), text => !text.trim());
+}
+
+// The reply is unchecked here; enrichmentService validates it
+export function analyzeEntryMetadata(content: string, moods: string[], knownTags: string[]): Promise<AIResult<unknown>> {
+  const text = toPlainText(content);
+  return run('analysis', [text], ([t]) => provider.analyzeEntry(t, moods, knownTags), reply => !reply || typeof reply !== 'object');
+}
+
+export function combineSummaries(summaries: string[], period: string): Promise<AIResult<string>> {
+  return run('summary', summaries, texts => provider.combineSummaries(texts, period), text => !text.trim());
+}
@@ -0,0 +1,68 @@
+import { format, isValid } from 'date-fns';
+import { ChatTurn } from './aiProvider';
+import { AIResult, answerFromExcerpts } from './aiService';
+import { EmbeddingIndex, retrievePassages } from './embeddingService';
+
+/**
+ * "Ask my diary": retrieves the passages closest to a question from the
+ * local embedding index and lets the AI answer from those alone.
+ */
+
+const HISTORY_TURNS = 6;
+
+// One excerpt the answer may cite as [number]
+export interface DiarySource {
+  number: number;
+  entryId: string;
+  date: string; // ISO string of the entry
+  snippet: string;
+}
+
+export interface DiaryAnswer {
+  result: AIResult<string>;
+  sources: DiarySource[];
+}
+
+export type AnswerPart = { kind: 'text'; text: string } | { kind: 'citation'; number: number };
+
+function dateLabel(iso: string): string {
+  const d = new Date(iso);
+  return isValid(d) ? format(d, 'EEEE, MMMM d, yyyy') : 'Undated';
+}
+
+export async function askDiary(index: EmbeddingIndex, question: string, history: ChatTurn[] = []): Promise<DiaryAnswer> {
+  // Follow-ups like "and the year before?" lean on the previous question for retrieval
+  const previous = [...history].reverse().find(turn => turn.role === 'user');
+  const query = previous ? `${question} ${previous.text}` : question;
+
+  const sources: DiarySource[] = retrievePassages(index, query)
+    .sort((a, b) => a.passage.date.localeCompare(b.passage.date))
+    .map(({ passage }, idx) => ({ number: idx + 1, entryId: passage.entryId, date: passage.date, snippet: passage.text }));
+
+  if (sources.length === 0) {
+    // Nothing relevant, so nothing is sent
+    return { result: { status: 'success', value: "I couldn't find anything in your diary about that. Try asking with other words." }, sources };
+  }
+
+  const excerpts = sources.map(s => `(${dateLabel(s.date)}) ${s.snippet}`);
+  const result = await answerFromExcerpts(question, excerpts, history.slice(-HISTORY_TURNS));
+  return { result, sources };
+}
+
+/**
+ * Splits an answer into text and [n] citations of known sources; numbers that
+ * match no source stay as text.
+ */
+export function splitCitations(answer: string, sourceCount: number): AnswerPart[] {
+  const parts: AnswerPart[] = [];
+  let last = 0;
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    const numbers = match[1].split(',').map(n => Number(n.trim()));
+    if (!numbers.every(n => n >= 1 && n <= sourceCount)) continue;
+    if (match.index! > last) parts.push({ kind: 'text', text: answer.slice(last, match.index) });
+    numbers.forEach(number => parts.push({ kind: 'citation', number }));
+    last = match.index! + match[0].length;
+  }
+  if (last < answer.length) parts.push({ kind: 'text', text: answer.slice(last) });
+  return parts;
+}
@@ -0,0 +1,91 @@
+/**
+ * WebCrypto primitives for the diary: PBKDF2 key derivation and AES-GCM
+ * encryption of JSON values and binary blobs. Keys are always passed in
+ * explicitly; holding the unlocked key is vaultService's job.
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export interface KdfParams {
+  salt: string; // base64
+  iterations: number;
+}
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: ArrayBuffer;
+}
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super("That passphrase is not correct.");
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super("This file is encrypted. Enter its passphrase to continue.");
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer as ArrayBuffer;
+}
+
+export function createKdfParams(): KdfParams {
+  return {
+    salt: bytesToBase64(crypto.getRandomValues(new Uint8Array(16))),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function deriveKey(passphrase: string, params: KdfParams): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBytes(key: CryptoKey, bytes: BufferSource): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: bytesToBase64(iv), data };
+}
+
+export async function decryptBytes(key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> {
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(payload.iv) }, key, payload.data);
+  } catch {
+    // AES-GCM authentication failure: wrong key or tampered data
+    throw new InvalidPassphraseError();
+  }
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  return encryptBytes(key, encoder.encode(JSON.stringify(value)));
+}
+
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  return JSON.parse(decoder.decode(await decryptBytes(key, payload)));
+}
@@ -0,0 +1,29 @@
+import { format, isValid } from 'date-fns';
+import { DiaryEntry } from '../types';
+
+/**
+ * Local calendar day of an ISO timestamp as "yyyy-MM-dd", or null when the
+ * date cannot be parsed.
+ */
+export function toDayKey(iso: string): string | null {
+  const d = new Date(iso);
+  return isValid(d) ? format(d, 'yyyy-MM-dd') : null;
+}
+
+export function groupByDay(entries: DiaryEntry[]): Map<string, DiaryEntry[]> {
+  const days = new Map<string, DiaryEntry[]>();
+  for (const entry of entries) {
+    const key = toDayKey(entry.date);
+    if (!key) continue;
+    const list = days.get(key);
+    if (list) list.push(entry);
+    else days.set(key, [entry]);
+  }
+  return days;
+}
+
+// A length of time as "m:ss", e.g. for recordings
+export function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
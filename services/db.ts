@@ -0,0 +1,104 @@
+/**
+ * Thin promise wrapper around the LifeThreads IndexedDB database.
+ * Object stores are declared once here; bump DB_VERSION whenever a store is added
+ * and the upgrade handler will create anything that is missing.
+ */
+
+const DB_NAME = 'lifeThreads';
+const DB_VERSION = 6;
+
+export const STORES = {
+  entries: 'entries',
+  images: 'images',
+  quarantine: 'quarantine',
+  meta: 'meta',
+  summaries: 'summaries',
+  revisions: 'revisions',
+  drafts: 'drafts',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface ImageRecord {
+  id: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - release our handle so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", 'AbortError'));
+  });
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function getRecord<T>(store: StoreName, id: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).get(id) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T>(store: StoreName, record: T): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(record);
+  await transactionDone(tx);
+}
+
+export async function deleteRecord(store: StoreName, id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(id);
+  await transactionDone(tx);
+}
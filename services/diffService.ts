@@ -0,0 +1,78 @@
+/**
+ * Word-level diff between two versions of a text, for the revision history.
+ * Whitespace is kept as its own token so the parts can be rendered back into
+ * the original layout.
+ */
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many token pairs the LCS table gets too large to build in the UI thread
+const MAX_CELLS = 2_000_000;
+
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+
+  // Common prefix and suffix are cheap to strip and usually most of an edit
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'same', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_CELLS) {
+    push(parts, 'removed', midA.join(''));
+    push(parts, 'added', midB.join(''));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push(parts, 'same', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push(parts, 'removed', midA[i++]);
+      } else {
+        push(parts, 'added', midB[j++]);
+      }
+    }
+    push(parts, 'removed', midA.slice(i).join(''));
+    push(parts, 'added', midB.slice(j).join(''));
+  }
+
+  push(parts, 'same', a.slice(endA).join(''));
+  return parts;
+}
@@ -0,0 +1,104 @@
+import { DiaryEntry, EntryDraft } from '../types';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { openRecord, sealRecord } from './vaultService';
+import { getImageBlob } from './storageService';
+
+/**
+ * Autosaved editor drafts. Edits of an existing entry use one draft per entry;
+ * every new entry gets its own draft id, so several can be pending at once.
+ */
+
+const NEW_PREFIX = 'new:';
+const ENTRY_PREFIX = 'entry:';
+
+// Photos already converted for a draft, so autosaves do not re-read them every time
+const portableUrls = new Map<string, string>();
+
+export function draftIdForEntry(entryId: string): string {
+  return `${ENTRY_PREFIX}${entryId}`;
+}
+
+export function newDraftId(): string {
+  return `${NEW_PREFIX}${crypto.randomUUID()}`;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Object URLs die with the page, so drafts keep every image and recording as a data URL
+async function toPortableUrl(url: string): Promise<string> {
+  if (url.startsWith('data:')) return url;
+  const cached = portableUrls.get(url);
+  if (cached) return cached;
+  const dataUrl = await blobToDataUrl(await getImageBlob(url));
+  portableUrls.set(url, dataUrl);
+  return dataUrl;
+}
+
+export async function saveDraft(id: string, data: EntryDraft['data'], entryId?: string): Promise<EntryDraft> {
+  const draft: EntryDraft = {
+    id,
+    entryId,
+    updatedAt: new Date().toISOString(),
+    data: {
+      ...data,
+      images: await Promise.all(data.images.map(toPortableUrl)),
+      aiImage: data.aiImage ? await toPortableUrl(data.aiImage) : undefined,
+      voiceNotes: data.voiceNotes
+        ? await Promise.all(data.voiceNotes.map(async note => ({ ...note, url: await toPortableUrl(note.url) })))
+        : undefined,
+    },
+  };
+  await putRecord(STORES.drafts, await sealRecord(draft));
+  return draft;
+}
+
+export async function getDraft(id: string): Promise<EntryDraft | null> {
+  const raw = await getRecord<unknown>(STORES.drafts, id);
+  return raw ? openRecord<EntryDraft>(raw) : null;
+}
+
+// Pending drafts, most recently edited first
+export async function loadDrafts(): Promise<EntryDraft[]> {
+  const raws = await getAllRecords<unknown>(STORES.drafts);
+  const drafts = await Promise.all(raws.map(raw => openRecord<EntryDraft>(raw)));
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function deleteDraft(id: string): Promise<void> {
+  return deleteRecord(STORES.drafts, id);
+}
+
+// Whether a draft would change anything about the entry it edits
+const placeKey = (location?: DiaryEntry['location']) =>
+  location ? [location.name, location.latitude, location.longitude].join('|') : '';
+
+export function draftDiffers(draft: EntryDraft, entry: DiaryEntry): boolean {
+  const { data } = draft;
+  return data.content !== entry.content
+    || data.date.slice(0, 16) !== entry.date.slice(0, 16)
+    || (data.mood || '') !== (entry.mood || '')
+    || (data.tags || []).join('\u0000') !== (entry.tags || []).join('\u0000')
+    || (data.threads || []).join('\u0000') !== (entry.threads || []).join('\u0000')
+    || [data.people, data.places, data.events].map(list => (list || []).join('\u0000')).join('\u0001')
+      !== [entry.people, entry.places, entry.events].map(list => (list || []).join('\u0000')).join('\u0001')
+    || (data.links || []).join('\u0000') !== (entry.links || []).join('\u0000')
+    || (data.aiReflection || '') !== (entry.aiReflection || '')
+    || data.images.length !== (entry.images || []).length
+    || (data.voiceNotes || []).length !== (entry.voiceNotes || []).length
+    || placeKey(data.location) !== placeKey(entry.location)
+    || !!data.isPrivate !== !!entry.isPrivate;
+}
+
+/**
+ * Drops the converted photos held in memory, e.g. on lock.
+ */
+export function clearDraftCache() {
+  portableUrls.clear();
+}
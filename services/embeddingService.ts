@@ -0,0 +1,157 @@
+import { format, isValid } from 'date-fns';
+import { DiaryEntry } from '../types';
+import { getMood } from '../constants';
+import { tokenize } from './searchService';
+import { toPlainText } from './markdownService';
+
+/**
+ * Local embeddings for retrieval: every passage becomes a hashed TF-IDF
+ * vector over words, word pairs and word stems, compared by cosine
+ * similarity. Nothing here touches the network.
+ */
+
+const DIMENSIONS = 1024;
+const PASSAGE_WORDS = 120;
+const MIN_SCORE = 0.05;
+
+// Words that say nothing about what a question is after
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'then', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+export interface Passage {
+  entryId: string;
+  date: string; // ISO string of the entry
+  text: string; // plain text sent to the AI when this passage is retrieved
+}
+
+export interface EmbeddingIndex {
+  passages: Passage[];
+  vectors: Float32Array[];
+  idf: Map<string, number>;
+  defaultIdf: number; // for features no passage contains
+}
+
+export interface RetrievedPassage {
+  passage: Passage;
+  score: number;
+}
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Words, adjacent pairs, and 4-letter stems so "anxious" meets "anxiety"
+function features(text: string): Map<string, number> {
+  const words = tokenize(text).filter(w => !STOPWORDS.has(w));
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+  words.forEach((word, idx) => {
+    add(word, 1);
+    if (word.length > 4) add(`~${word.slice(0, 4)}`, 0.5);
+    if (idx > 0) add(`${words[idx - 1]} ${word}`, 0.5);
+  });
+  return counts;
+}
+
+function vectorize(counts: Map<string, number>, idf: Map<string, number>, defaultIdf: number): Float32Array {
+  const vector = new Float32Array(DIMENSIONS);
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    // The sign bit spreads colliding features apart instead of piling them up
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % DIMENSIONS] += sign * (1 + Math.log(count)) * (idf.get(feature) ?? defaultIdf);
+  }
+  let norm = 0;
+  for (let i = 0; i < DIMENSIONS; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < DIMENSIONS; i++) vector[i] /= norm;
+  return vector;
+}
+
+// Tags, mood and place are searchable context, but only the text is sent on
+function contextOf(entry: DiaryEntry): string {
+  const d = new Date(entry.date);
+  return [
+    isValid(d) ? format(d, 'MMMM yyyy EEEE') : '',
+    (entry.tags || []).join(' '),
+    entry.mood ? getMood(entry.mood).label : '',
+    entry.location?.name || '',
+  ].join(' ');
+}
+
+function splitPassages(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const passages: string[] = [];
+  for (let i = 0; i < words.length; i += PASSAGE_WORDS) {
+    passages.push(words.slice(i, i + PASSAGE_WORDS).join(' '));
+  }
+  return passages;
+}
+
+export function buildEmbeddingIndex(entries: DiaryEntry[]): EmbeddingIndex {
+  const passages: Passage[] = [];
+  const featureSets: Map<string, number>[] = [];
+
+  for (const entry of entries) {
+    const context = contextOf(entry);
+    for (const text of splitPassages(toPlainText(entry.content))) {
+      passages.push({ entryId: entry.id, date: entry.date, text });
+      featureSets.push(features(`${text} ${context}`));
+    }
+  }
+
+  const df = new Map<string, number>();
+  featureSets.forEach(set => set.forEach((_, feature) => df.set(feature, (df.get(feature) || 0) + 1)));
+  const n = passages.length;
+  const idf = new Map<string, number>();
+  df.forEach((count, feature) => idf.set(feature, Math.log((n + 1) / (count + 0.5))));
+  const defaultIdf = Math.log(n + 2);
+
+  return {
+    passages,
+    vectors: featureSets.map(set => vectorize(set, idf, defaultIdf)),
+    idf,
+    defaultIdf,
+  };
+}
+
+/**
+ * The passages closest to `query`, at most `perEntry` from any one entry.
+ */
+export function retrievePassages(index: EmbeddingIndex, query: string, limit = 6, perEntry = 2): RetrievedPassage[] {
+  const counts = features(query);
+  // Words found in no entry cannot help and would only dilute the query
+  for (const feature of [...counts.keys()]) {
+    if (!index.idf.has(feature)) counts.delete(feature);
+  }
+  if (counts.size === 0) return [];
+  const q = vectorize(counts, index.idf, index.defaultIdf);
+
+  const scored = index.vectors
+    .map((vector, idx) => {
+      let dot = 0;
+      for (let i = 0; i < DIMENSIONS; i++) dot += vector[i] * q[i];
+      return { passage: index.passages[idx], score: dot };
+    })
+    .filter(r => r.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const perEntryCount = new Map<string, number>();
+  const results: RetrievedPassage[] = [];
+  for (const result of scored) {
+    const count = perEntryCount.get(result.passage.entryId) || 0;
+    if (count >= perEntry) continue;
+    perEntryCount.set(result.passage.entryId, count + 1);
+    results.push(result);
+    if (results.length >= limit) break;
+  }
+  return results;
+}
@@ -0,0 +1,204 @@
+import { DiaryEntry, EntryEnrichment } from '../types';
+import { MOODS, normalizeTag, normalizeThread } from '../constants';
+import { AIResult, analyzeEntryMetadata, describeAIError } from './aiService';
+import { canSendToAI } from './privacyService';
+
+/**
+ * AI suggestions for an entry's mood, tags and the people, places and events
+ * it mentions. Suggestions are stored on the entry until the user accepts or
+ * dismisses them; nothing is applied automatically.
+ */
+
+const MAX_PER_LIST = 6;
+const RATE_LIMIT_PAUSE_MS = 60 * 1000;
+const MAX_RATE_LIMIT_PAUSES = 3;
+// Survives a reload, so an interrupted back-fill picks up where it stopped
+const BACKFILL_KEY = 'lifeThreads_backfill';
+
+export interface EntryMetadata {
+  mood?: string;
+  tags: string[];
+  people: string[];
+  places: string[];
+  events: string[];
+}
+
+export interface BackfillProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface BackfillStatus {
+  isRunning: boolean;
+  progress: BackfillProgress | null;
+  error: string | null;
+}
+
+export interface BackfillOptions {
+  requestsPerMinute: number;
+  signal: AbortSignal;
+  // The entry as it is now, or null when it no longer needs analyzing; entries may change during a long run
+  currentEntry: (entryId: string) => DiaryEntry | null;
+  onEnriched: (entryId: string, enrichment: EntryEnrichment) => void;
+  onProgress: (progress: BackfillProgress) => void;
+}
+
+export type BackfillOutcome = { status: 'done' | 'stopped' } | { status: 'failed'; message: string };
+
+export function contentHash(content: string): string {
+  let h = 2166136261;
+  for (let i = 0; i < content.length; i++) {
+    h ^= content.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return (h >>> 0).toString(16);
+}
+
+function nameList(value: unknown, normalize: (raw: string) => string): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string') continue;
+    const name = normalize(item);
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    result.push(name);
+  }
+  return result.slice(0, MAX_PER_LIST);
+}
+
+/**
+ * Checks a provider reply against the enrichment schema, dropping anything
+ * that does not fit rather than failing the whole reply.
+ */
+export function toEnrichment(raw: unknown, hash: string): EntryEnrichment | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const mood = typeof r.mood === 'string' ? r.mood.trim().toLowerCase() : '';
+  return {
+    mood: MOODS.some(m => m.value === mood) ? mood : undefined,
+    tags: nameList(r.tags, normalizeTag),
+    people: nameList(r.people, normalizeThread),
+    places: nameList(r.places, normalizeThread),
+    events: nameList(r.events, normalizeThread),
+    analyzedAt: new Date().toISOString(),
+    contentHash: hash,
+  };
+}
+
+export async function enrichContent(content: string, knownTags: string[]): Promise<AIResult<EntryEnrichment>> {
+  const result = await analyzeEntryMetadata(content, MOODS.map(m => m.value), knownTags);
+  if (result.status !== 'success') return result;
+  const enrichment = toEnrichment(result.value, contentHash(content));
+  return enrichment
+    ? { status: 'success', value: enrichment }
+    : { status: 'failed', message: describeAIError('failed') };
+}
+
+// Suggestions the entry does not have yet, or null when there is nothing left to offer
+export function pendingSuggestions(enrichment: EntryEnrichment | undefined, current: EntryMetadata): EntryMetadata | null {
+  if (!enrichment || enrichment.dismissed) return null;
+  const missing = (suggested: string[], have: string[]) =>
+    suggested.filter(s => !have.some(h => h.toLowerCase() === s.toLowerCase()));
+  const pending: EntryMetadata = {
+    mood: enrichment.mood && enrichment.mood !== current.mood ? enrichment.mood : undefined,
+    tags: missing(enrichment.tags, current.tags),
+    people: missing(enrichment.people, current.people),
+    places: missing(enrichment.places, current.places),
+    events: missing(enrichment.events, current.events),
+  };
+  return suggestionCount(pending) > 0 ? pending : null;
+}
+
+export function suggestionCount(metadata: EntryMetadata | null): number {
+  if (!metadata) return 0;
+  return (metadata.mood ? 1 : 0) + metadata.tags.length + metadata.people.length + metadata.places.length + metadata.events.length;
+}
+
+export function metadataOf(entry: Pick<DiaryEntry, 'mood' | 'tags' | 'people' | 'places' | 'events'>): EntryMetadata {
+  return {
+    mood: entry.mood,
+    tags: entry.tags || [],
+    people: entry.people || [],
+    places: entry.places || [],
+    events: entry.events || [],
+  };
+}
+
+export function needsEnrichment(entry: DiaryEntry): boolean {
+  return !entry.enrichment && !entry.deletedAt && canSendToAI(entry) && !!entry.content.trim();
+}
+
+export function isBackfillPending(): boolean {
+  return localStorage.getItem(BACKFILL_KEY) === 'pending';
+}
+
+export function setBackfillPending(pending: boolean) {
+  if (pending) localStorage.setItem(BACKFILL_KEY, 'pending');
+  else localStorage.removeItem(BACKFILL_KEY);
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      resolve();
+    };
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Analyzes entries one at a time at no more than `requestsPerMinute`.
+ * Results are handed over as they arrive, so stopping (or closing the app)
+ * loses nothing and the next run only covers what is left.
+ */
+export async function runBackfill(entries: DiaryEntry[], knownTags: string[], options: BackfillOptions): Promise<BackfillOutcome> {
+  const { signal } = options;
+  const interval = 60000 / Math.max(1, options.requestsPerMinute);
+  const progress: BackfillProgress = { done: 0, total: entries.length, failed: 0 };
+  let pauses = 0;
+  options.onProgress({ ...progress });
+
+  for (let i = 0; i < entries.length; i++) {
+    if (signal.aborted) return { status: 'stopped' };
+    const entry = options.currentEntry(entries[i].id);
+    if (!entry) {
+      progress.done++;
+      options.onProgress({ ...progress });
+      continue;
+    }
+    const startedAt = Date.now();
+    const result = await enrichContent(entry.content, knownTags);
+    if (signal.aborted) return { status: 'stopped' };
+
+    if (result.status === 'success') {
+      options.onEnriched(entry.id, result.value);
+      progress.done++;
+    } else if (result.status === 'rate-limited' && pauses < MAX_RATE_LIMIT_PAUSES) {
+      // Back off, then try the same entry again
+      pauses++;
+      await wait(RATE_LIMIT_PAUSE_MS, signal);
+      i--;
+      continue;
+    } else if (result.status === 'safety-blocked') {
+      // Would be blocked every time; mark it so later runs skip it
+      options.onEnriched(entry.id, { tags: [], people: [], places: [], events: [], analyzedAt: new Date().toISOString(), contentHash: contentHash(entry.content), dismissed: true });
+      progress.failed++;
+    } else if (result.status === 'failed') {
+      progress.failed++;
+    } else {
+      return { status: 'failed', message: result.message };
+    }
+
+    options.onProgress({ ...progress });
+    await wait(Math.max(0, interval - (Date.now() - startedAt)), signal);
+  }
+  return { status: 'done' };
+}
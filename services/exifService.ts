@@ -0,0 +1,159 @@
+/**
+ * Minimal EXIF reader for JPEG photos: orientation, capture time, camera and
+ * GPS position, plus the stored pixel size from the frame header. Runs in the
+ * image worker, so it has no DOM dependencies. Anything malformed is skipped
+ * rather than thrown.
+ */
+
+export interface ExifData {
+  orientation?: number; // 1-8, see the TIFF spec
+  takenAt?: string; // ISO
+  camera?: string;
+  latitude?: number;
+  longitude?: number;
+  width?: number; // pixel size as stored, before orientation
+  height?: number;
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_ORIGINAL = 0x9003;
+const TAG_OFFSET_ORIGINAL = 0x9011;
+const GPS_LAT_REF = 1;
+const GPS_LAT = 2;
+const GPS_LON_REF = 3;
+const GPS_LON = 4;
+
+type IfdValue = number | number[] | string;
+
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, IfdValue> {
+  const tags = new Map<number, IfdValue>();
+  const start = tiffStart + offset;
+  const count = view.getUint16(start, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const at = size * n <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+    if (at + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const code = view.getUint8(at + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      switch (type) {
+        case 1:
+        case 7: values.push(view.getUint8(at + j)); break;
+        case 3: values.push(view.getUint16(at + j * 2, little)); break;
+        case 4: values.push(view.getUint32(at + j * 4, little)); break;
+        case 9: values.push(view.getInt32(at + j * 4, little)); break;
+        case 5: values.push(view.getUint32(at + j * 8, little) / (view.getUint32(at + j * 8 + 4, little) || 1)); break;
+        case 10: values.push(view.getInt32(at + j * 8, little) / (view.getInt32(at + j * 8 + 4, little) || 1)); break;
+      }
+    }
+    tags.set(tag, n === 1 ? values[0] : values);
+  }
+  return tags;
+}
+
+// "2024:03:05 14:22:10" with an optional "+01:00" offset; without one it is camera-local time
+function parseExifDate(value: IfdValue | undefined, offset: IfdValue | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const m = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s] = m;
+  const date = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  return isNaN(date.getTime()) || Number(y) < 1900 ? undefined : date.toISOString();
+}
+
+function toDegrees(value: IfdValue | undefined, ref: IfdValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  if (!isFinite(degrees)) return undefined;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+function readTiff(view: DataView, tiffStart: number, result: ExifData) {
+  const order = view.getUint16(tiffStart);
+  if (order !== 0x4949 && order !== 0x4d4d) return;
+  const little = order === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (typeof orientation === 'number' && orientation >= 1 && orientation <= 8) result.orientation = orientation;
+
+  const make = ifd0.get(TAG_MAKE);
+  const model = ifd0.get(TAG_MODEL);
+  if (typeof model === 'string' && model) {
+    // Many models already start with the make ("Canon EOS R6")
+    result.camera = typeof make === 'string' && make && !model.startsWith(make) ? `${make} ${model}` : model;
+  }
+
+  const exifOffset = ifd0.get(TAG_EXIF_IFD);
+  if (typeof exifOffset === 'number') {
+    const exif = readIfd(view, tiffStart, exifOffset, little);
+    result.takenAt = parseExifDate(exif.get(TAG_DATE_ORIGINAL), exif.get(TAG_OFFSET_ORIGINAL));
+  }
+
+  const gpsOffset = ifd0.get(TAG_GPS_IFD);
+  if (typeof gpsOffset === 'number') {
+    const gps = readIfd(view, tiffStart, gpsOffset, little);
+    const latitude = toDegrees(gps.get(GPS_LAT), gps.get(GPS_LAT_REF));
+    const longitude = toDegrees(gps.get(GPS_LON), gps.get(GPS_LON_REF));
+    // 0,0 is what many cameras write when they had no fix
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+      result.latitude = latitude;
+      result.longitude = longitude;
+    }
+  }
+}
+
+function isFrameMarker(marker: number): boolean {
+  return marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc;
+}
+
+export function readExif(buffer: ArrayBuffer): ExifData {
+  const result: ExifData = {};
+  const view = new DataView(buffer);
+  try {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return result;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // start of scan: no more headers
+      const length = view.getUint16(offset + 2);
+
+      // APP1 holding "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        readTiff(view, offset + 10, result);
+      } else if (isFrameMarker(marker)) {
+        result.height = view.getUint16(offset + 5);
+        result.width = view.getUint16(offset + 7);
+      }
+      offset += 2 + length;
+    }
+  } catch (err) {
+    // Truncated or odd files: keep whatever was read before the problem
+  }
+  return result;
+}
@@ -0,0 +1,483 @@
+import JSZip from 'jszip';
+import { format, isValid } from 'date-fns';
+import { DiaryEntry, ThreadSummary } from '../types';
+import { CURRENT_SCHEMA_VERSION, SchemaEnvelope, readEnvelope, wrap } from './schema';
+import { getImageBlob } from './storageService';
+import { loadSummaries, saveSummary } from './summaryService';
+import {
+  KdfParams,
+  PassphraseRequiredError,
+  base64ToBytes,
+  bytesToBase64,
+  createKdfParams,
+  decryptBytes,
+  deriveKey,
+  encryptBytes,
+} from './cryptoService';
+
+const ARCHIVE_FORMAT = 'lifethreads-archive';
+const ENCRYPTED_FORMAT = 'lifethreads-encrypted';
+const PHOTO_MARKER = '<!-- lifethreads:photos -->';
+
+export interface JournalArchive {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO string
+  entries: SchemaEnvelope<DiaryEntry>[];
+  summaries?: ThreadSummary[];
+}
+
+// Passphrase-protected wrapper around either export format
+interface EncryptedExport {
+  format: typeof ENCRYPTED_FORMAT;
+  contentType: string;
+  kdf: KdfParams;
+  iv: string; // base64
+  data: string; // base64 ciphertext
+}
+
+export interface ImportConflict {
+  id: string;
+  local: DiaryEntry;
+  incoming: DiaryEntry;
+}
+
+// What an import file holds, not yet validated
+export interface ImportFile {
+  entries: unknown[];
+  summaries: unknown[];
+}
+
+export interface ImportReport {
+  merged: DiaryEntry[];
+  added: number;
+  summariesAdded: number;
+  unchanged: number;
+  conflicts: ImportConflict[];
+  invalid: string[]; // human readable reasons, one per rejected record
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+};
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function extensionFor(blob: Blob): string {
+  // Recorded audio carries codec parameters, e.g. "audio/webm;codecs=opus"
+  return EXTENSIONS[blob.type.split(';')[0]] || 'bin';
+}
+
+function mimeFor(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase();
+  return Object.keys(EXTENSIONS).find(mime => EXTENSIONS[mime] === ext) || 'application/octet-stream';
+}
+
+function entrySlug(entry: DiaryEntry): string {
+  const d = new Date(entry.date);
+  const day = isValid(d) ? format(d, 'yyyy-MM-dd-HHmm') : 'undated';
+  return `${day}-${entry.id.slice(0, 8)}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportFilename(extension: string): string {
+  return `lifethreads-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+}
+
+/**
+ * Lossless export: every entry wrapped in a schema envelope with its images
+ * inlined as data URLs, so the archive is self-contained.
+ */
+export async function buildJsonArchive(entries: DiaryEntry[]): Promise<JournalArchive> {
+  const inline = async (url: string) => blobToDataUrl(await getImageBlob(url));
+
+  const portable = await Promise.all(entries.map(async (entry) => wrap({
+    ...entry,
+    images: await Promise.all((entry.images || []).map(inline)),
+    aiImage: entry.aiImage ? await inline(entry.aiImage) : undefined,
+    voiceNotes: entry.voiceNotes
+      ? await Promise.all(entry.voiceNotes.map(async note => ({ ...note, url: await inline(note.url) })))
+      : undefined,
+  })));
+
+  return {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: portable,
+    summaries: await loadSummaries(),
+  };
+}
+
+export async function exportJsonArchive(entries: DiaryEntry[]): Promise<Blob> {
+  const archive = await buildJsonArchive(entries);
+  return new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+}
+
+function summarySlug(summary: ThreadSummary): string {
+  const slug = summary.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+  return `${slug || 'summary'}-${summary.id.slice(0, 8)}`;
+}
+
+export function summaryToMarkdown(summary: ThreadSummary): string {
+  const frontMatter: Record<string, unknown> = {
+    id: summary.id,
+    title: summary.title,
+    scope: summary.scope,
+    start: summary.start,
+    end: summary.end,
+    tag: summary.tag,
+    entries: summary.entryCount,
+    created: summary.createdAt,
+  };
+  const lines = ['---'];
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (value !== undefined) lines.push(`${key}: ${JSON.stringify(value)}`);
+  }
+  lines.push('---', '', `# ${summary.title}`, '', summary.content);
+  return lines.join('\n') + '\n';
+}
+
+export function exportSummary(summary: ThreadSummary) {
+  const blob = new Blob([summaryToMarkdown(summary)], { type: 'text/markdown' });
+  downloadBlob(blob, `lifethreads-summary-${summarySlug(summary)}.md`);
+}
+
+/**
+ * Human friendly export: one Markdown file per entry with YAML front-matter,
+ * plus the photos, voice notes and AI image as real files next to them and
+ * the saved summaries. Front-matter values are written as JSON scalars, which
+ * YAML reads unchanged.
+ */
+export async function exportMarkdownZip(entries: DiaryEntry[]): Promise<Blob> {
+  const zip = new JSZip();
+
+  // The trash is only carried by the lossless JSON archive
+  for (const entry of entries.filter(e => !e.deletedAt)) {
+    const slug = entrySlug(entry);
+    const photoPaths: string[] = [];
+
+    for (const [idx, url] of (entry.images || []).entries()) {
+      const blob = await getImageBlob(url);
+      const path = `photos/${slug}-${idx + 1}.${extensionFor(blob)}`;
+      zip.file(path, blob);
+      photoPaths.push(path);
+    }
+
+    const voiceNotes = [];
+    for (const [idx, note] of (entry.voiceNotes || []).entries()) {
+      const blob = await getImageBlob(note.url);
+      const path = `audio/${slug}-${idx + 1}.${extensionFor(blob)}`;
+      zip.file(path, blob);
+      voiceNotes.push({ path, recorded_at: note.recordedAt, duration_ms: note.durationMs, transcript: note.transcript });
+    }
+
+    let aiImagePath: string | undefined;
+    if (entry.aiImage) {
+      const blob = await getImageBlob(entry.aiImage);
+      aiImagePath = `ai/${slug}.${extensionFor(blob)}`;
+      zip.file(aiImagePath, blob);
+    }
+
+    const frontMatter: Record<string, unknown> = {
+      id: entry.id,
+      date: entry.date,
+      mood: entry.mood,
+      tags: entry.tags,
+      threads: entry.threads,
+      links: entry.links,
+      people: entry.people,
+      places: entry.places,
+      events: entry.events,
+      location: entry.location,
+      private: entry.isPrivate,
+      photos: photoPaths,
+      photo_info: entry.photoInfo,
+      voice_notes: voiceNotes.length > 0 ? voiceNotes : undefined,
+      ai_image: aiImagePath,
+      ai_image_template: entry.aiImageTemplate,
+      ai_reflection: entry.aiReflection,
+      ai_reflection_template: entry.aiReflectionTemplate,
+      ai_suggestions: entry.enrichment,
+    };
+
+    const lines = ['---'];
+    for (const [key, value] of Object.entries(frontMatter)) {
+      if (value !== undefined) lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+    lines.push('---', '', entry.content);
+
+    const embeds = [...photoPaths, ...(aiImagePath ? [aiImagePath] : [])];
+    if (embeds.length > 0) {
+      lines.push('', PHOTO_MARKER, ...embeds.map(path => `![](../${path})`));
+    }
+
+    zip.file(`entries/${slug}.md`, lines.join('\n') + '\n');
+  }
+
+  for (const summary of await loadSummaries()) {
+    zip.file(`summaries/${summarySlug(summary)}.md`, summaryToMarkdown(summary));
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
+
+/**
+ * Wraps an export in a passphrase-encrypted JSON container. The passphrase is
+ * chosen per export and is independent of the diary's own lock.
+ */
+export async function encryptExport(blob: Blob, passphrase: string): Promise<Blob> {
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  const { iv, data } = await encryptBytes(key, await blob.arrayBuffer());
+  const container: EncryptedExport = {
+    format: ENCRYPTED_FORMAT,
+    contentType: blob.type,
+    kdf,
+    iv,
+    data: bytesToBase64(data),
+  };
+  return new Blob([JSON.stringify(container)], { type: 'application/json' });
+}
+
+async function decryptExport(container: EncryptedExport, passphrase?: string): Promise<Blob> {
+  if (!passphrase) throw new PassphraseRequiredError();
+  const key = await deriveKey(passphrase, container.kdf);
+  const bytes = await decryptBytes(key, { iv: container.iv, data: base64ToBytes(container.data) });
+  return new Blob([bytes], { type: container.contentType });
+}
+
+function parseFrontMatter(markdown: string): { meta: Record<string, any>; body: string } | null {
+  const match = markdown.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) return null;
+
+  const meta: Record<string, any> = {};
+  for (const line of match[1].split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx === -1) continue;
+    const key = line.slice(0, idx).trim();
+    const raw = line.slice(idx + 1).trim();
+    try {
+      meta[key] = JSON.parse(raw);
+    } catch {
+      meta[key] = raw; // hand-edited plain YAML scalar
+    }
+  }
+
+  // Undo only the blank lines the exporter adds around the content, keeping the entry's own
+  const [text, photos] = match[2].split(PHOTO_MARKER);
+  const body = text.replace(/^\n/, '').replace(photos === undefined ? /\n$/ : /\n\n$/, '');
+  return { meta, body };
+}
+
+async function readMarkdownZip(file: Blob): Promise<ImportFile> {
+  const zip = await JSZip.loadAsync(file);
+  const records: unknown[] = [];
+
+  const loadImage = async (path: string): Promise<string | undefined> => {
+    const item = zip.file(path);
+    if (!item) return undefined;
+    const blob = new Blob([await item.async('arraybuffer')], { type: mimeFor(path) });
+    return blobToDataUrl(blob);
+  };
+
+  const markdownFiles = zip.file(/^entries\/.*\.md$/);
+  for (const item of markdownFiles) {
+    const parsed = parseFrontMatter(await item.async('string'));
+    if (!parsed) {
+      records.push({ sourceFile: item.name });
+      continue;
+    }
+    const { meta, body } = parsed;
+    const photos: string[] = [];
+    for (const path of Array.isArray(meta.photos) ? meta.photos : []) {
+      const url = await loadImage(path);
+      if (url) photos.push(url);
+    }
+    const voiceNotes = [];
+    for (const note of Array.isArray(meta.voice_notes) ? meta.voice_notes : []) {
+      const url = note?.path ? await loadImage(note.path) : undefined;
+      if (!url) continue;
+      voiceNotes.push({
+        id: crypto.randomUUID(),
+        url,
+        recordedAt: note.recorded_at,
+        durationMs: Number(note.duration_ms) || 0,
+        transcript: note.transcript,
+      });
+    }
+    records.push({
+      id: meta.id,
+      date: meta.date,
+      mood: meta.mood,
+      tags: meta.tags,
+      threads: meta.threads,
+      links: meta.links,
+      people: meta.people,
+      places: meta.places,
+      events: meta.events,
+      location: meta.location,
+      isPrivate: meta.private === true ? true : undefined,
+      content: body,
+      images: photos,
+      voiceNotes: voiceNotes.length > 0 ? voiceNotes : undefined,
+      photoInfo: Array.isArray(meta.photo_info) && photos.length === meta.photos?.length ? meta.photo_info : undefined,
+      aiImage: meta.ai_image ? await loadImage(meta.ai_image) : undefined,
+      aiReflection: meta.ai_reflection,
+      aiImageTemplate: meta.ai_image_template,
+      aiReflectionTemplate: meta.ai_reflection_template,
+      enrichment: meta.ai_suggestions,
+    });
+  }
+
+  const summaries: unknown[] = [];
+  for (const item of zip.file(/^summaries\/.*\.md$/)) {
+    const parsed = parseFrontMatter(await item.async('string'));
+    if (!parsed) continue;
+    const { meta, body } = parsed;
+    summaries.push({
+      id: meta.id,
+      title: meta.title,
+      scope: meta.scope,
+      start: meta.start,
+      end: meta.end,
+      tag: meta.tag,
+      // The title is written as a heading above the summary itself
+      content: body.replace(/^# .*\n+/, ''),
+      entryCount: meta.entries,
+      createdAt: meta.created,
+    });
+  }
+
+  return { entries: records, summaries };
+}
+
+/**
+ * Reads a JSON archive or Markdown ZIP, optionally inside an encrypted
+ * container, and returns the raw entries and summaries found in it. Nothing is
+ * trusted yet; `mergeImport` and `importSummaries` validate each record.
+ */
+export async function readImportFile(file: Blob & { name?: string }, passphrase?: string): Promise<ImportFile> {
+  const isZip = (file.name || '').toLowerCase().endsWith('.zip') || file.type.includes('zip');
+  if (isZip) return readMarkdownZip(file);
+
+  const parsed = JSON.parse(await file.text());
+  if (Array.isArray(parsed)) return { entries: parsed, summaries: [] }; // bare legacy localStorage dump
+  if (parsed?.format === ENCRYPTED_FORMAT) {
+    return readImportFile(await decryptExport(parsed, passphrase));
+  }
+  if (parsed?.format !== ARCHIVE_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error("This file is not a LifeThreads archive.");
+  }
+  return { entries: parsed.entries, summaries: Array.isArray(parsed.summaries) ? parsed.summaries : [] };
+}
+
+/**
+ * Every persisted field of an entry, as canonical JSON. Media URLs differ
+ * between a device and a backup, so photos and the AI image count only by
+ * number and voice notes by their details. Empty values are dropped, as an
+ * export leaves out what a local entry may store as an empty list.
+ */
+function comparable(entry: DiaryEntry): string {
+  const { images, aiImage, voiceNotes, ...rest } = entry;
+  const fields: Record<string, unknown> = {
+    ...rest,
+    images: (images || []).length,
+    aiImage: !!aiImage,
+    voiceNotes: (voiceNotes || []).map(({ id, url, ...note }) => note),
+  };
+  const isEmpty = (v: unknown) => v === undefined || v === null || v === '' || v === false || (Array.isArray(v) && v.length === 0);
+  const kept = Object.fromEntries(Object.entries(fields).filter(([, value]) => !isEmpty(value)));
+  // Sorted keys at every level, so objects built in a different order still match
+  return JSON.stringify(kept, (_, value) => value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+    : value);
+}
+
+function sameEntry(a: DiaryEntry, b: DiaryEntry): boolean {
+  return comparable(a) === comparable(b);
+}
+
+/**
+ * Merges imported records into the current entries by id. New ids are added,
+ * identical ones are skipped and differing ones are reported as conflicts
+ * (the local version is kept until the user picks the incoming one).
+ */
+export function mergeImport(current: DiaryEntry[], records: unknown[]): ImportReport {
+  const byId = new Map(current.map(e => [e.id, e]));
+  const report: ImportReport = { merged: [...current], added: 0, summariesAdded: 0, unchanged: 0, conflicts: [], invalid: [] };
+
+  records.forEach((raw, idx) => {
+    const result = readEnvelope<DiaryEntry>(raw);
+    if (!result.value) {
+      report.invalid.push(`Record ${idx + 1}: ${result.errors.join(', ')}`);
+      return;
+    }
+    const incoming = result.value;
+    const local = byId.get(incoming.id);
+    if (!local) {
+      report.merged.push(incoming);
+      byId.set(incoming.id, incoming);
+      report.added++;
+    } else if (sameEntry(local, incoming)) {
+      report.unchanged++;
+    } else {
+      report.conflicts.push({ id: incoming.id, local, incoming });
+    }
+  });
+
+  return report;
+}
+
+const SUMMARY_SCOPES = ['month', 'quarter', 'year', 'custom', 'tag'];
+
+const isSummary = (v: unknown): v is ThreadSummary => {
+  if (!v || typeof v !== 'object') return false;
+  const s = v as Record<string, unknown>;
+  return typeof s.id === 'string' && !!s.id && typeof s.title === 'string' && typeof s.content === 'string'
+    && SUMMARY_SCOPES.includes(s.scope as string)
+    && typeof s.start === 'string' && typeof s.end === 'string' && typeof s.createdAt === 'string'
+    && typeof s.entryCount === 'number' && (s.tag === undefined || typeof s.tag === 'string');
+};
+
+/**
+ * Saves the imported summaries that are not stored yet and returns how many
+ * were added. Summaries are generated text, so an existing one is never
+ * overwritten.
+ */
+export async function importSummaries(records: unknown[]): Promise<number> {
+  const existing = new Set((await loadSummaries()).map(s => s.id));
+  let added = 0;
+  for (const record of records) {
+    if (!isSummary(record) || existing.has(record.id)) continue;
+    await saveSummary(record);
+    existing.add(record.id);
+    added++;
+  }
+  return added;
+}
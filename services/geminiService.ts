@@ -1,5 +1,7 @@
-
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProviderSettings } from '../types';
+import { AIProvider, AIProviderError } from './aiProvider';
+import { reflectionPrompt, visualPromptRequest, imagePrompt, summaryPrompt, combineSummariesPrompt, relatedEntriesPrompt, parseRelatedEntries, transcriptionPrompt, askDiaryPrompt, enrichmentSchema, enrichmentPrompt, parseJsonReply, JsonSchema } from './prompts';
 
 /**
  * Helper to get an instance of the AI client.
@@ -10,7 +12,6 @@ function getAI() {
   const apiKey = (typeof process !== 'undefined' && process.env) ? process.env.API_KEY : undefined;
   
   if (!apiKey || apiKey === "undefined" || apiKey === "") {
-    console.error("Gemini API Key is missing. Please check your environment variables.");
     return null;
   }
   
@@ -22,74 +23,119 @@ function getAI() {
   }
 }
 
-export async function generateEntryReflection(content: string, date: string): Promise<string> {
-  try {
-    const ai = getAI();
-    if (!ai) return "Your memory is safely stored. AI reflection is currently unavailable.";
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `You are a thoughtful diary assistant. Here is a journal entry from ${date}: "${content}". Please provide a short (2-3 sentences) poetic or insightful reflection on this moment. Be warm and supportive.`,
-    });
-    return response.text || "A beautiful memory preserved.";
-  } catch (error: any) {
-    console.warn("Gemini Reflection Error:", error.message);
-    return "A moment to remember.";
+function requireAI() {
+  const ai = getAI();
+  if (!ai) throw new AIProviderError('missing-key', "Gemini API Key is missing. Please check your environment variables.");
+  return ai;
+}
+
+// Gemini reports blocked prompts/responses in the payload rather than as an HTTP error
+function assertNotBlocked(response: any) {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new AIProviderError('safety-blocked', `Gemini blocked the request (${blockReason || finishReason}).`);
   }
 }
 
-export async function generateReflectionImage(content: string): Promise<string | null> {
-  try {
-    const ai = getAI();
-    if (!ai) return null;
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
 
-    const promptResponse = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Create a short, artistic image generation prompt (max 30 words) that captures the mood and essence of this diary entry: "${content}". Focus on abstract, dreamy, and nostalgic styles.`,
+// Gemini takes an OpenAPI-style schema: upper-case types and no additionalProperties
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const { additionalProperties, type, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: Type[type.toUpperCase() as keyof typeof Type],
+    ...(properties && { properties: Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, toGeminiSchema(v)])) }),
+    ...(items && { items: toGeminiSchema(items) }),
+  };
+}
+
+export function createGeminiProvider(settings: AIProviderSettings): AIProvider {
+  const generateText = async (contents: string): Promise<string> => {
+    const response = await requireAI().models.generateContent({
+      model: settings.geminiTextModel,
+      contents,
     });
-    
-    const visualPrompt = promptResponse.text || content;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: `An artistic, dreamy, nostalgic illustration representing: ${visualPrompt}. High quality, soft lighting, evocative colors, watercolor and digital oil paint style. No text, no faces.`,
+    assertNotBlocked(response);
+    return response.text || '';
+  };
+
+  return {
+    name: 'Gemini',
+
+    isConfigured: () => getAI() !== null,
+
+    generateReflection: (content, date, style) => generateText(reflectionPrompt(content, date, style)),
+
+    async generateImage(content, date, style) {
+      const visualPrompt = (await generateText(visualPromptRequest(content))) || content;
+
+      const response = await requireAI().models.generateContent({
+        model: settings.geminiImageModel,
+        contents: {
+          parts: [{ text: imagePrompt(visualPrompt, date, style) }],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: "16:9"
           },
-        ],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9"
         },
-      },
-    });
+      });
+      assertNotBlocked(response);
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
       }
-    }
-    return null;
-  } catch (error: any) {
-    console.warn("Gemini Image Error:", error.message);
-    return null;
-  }
-}
+      return null;
+    },
 
-export async function generateYearSummary(entries: string[]): Promise<string> {
-  try {
-    const ai = getAI();
-    if (!ai) return "Your journey is a collection of beautiful threads.";
+    generateSummary: (entries, period) => generateText(summaryPrompt(entries, period)),
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Summarize the following collection of diary entries into a cohesive story of a journey. Focus on themes, growth, and emotions: \n\n ${entries.join("\n\n")}`,
-    });
-    return response.text || "Your journey is a collection of beautiful threads.";
-  } catch (error: any) {
-    console.warn("Gemini Summary Error:", error.message);
-    return "Your diary is full of meaningful moments.";
-  }
+    combineSummaries: (summaries, period) => generateText(combineSummariesPrompt(summaries, period)),
+
+    async findRelated(content, candidates) {
+      const reply = await generateText(relatedEntriesPrompt(content, candidates));
+      return parseRelatedEntries(reply, candidates.length);
+    },
+
+    async transcribeAudio(audio) {
+      const response = await requireAI().models.generateContent({
+        model: settings.geminiTextModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: audio.type.split(';')[0] || 'audio/webm', data: await blobToBase64(audio) } },
+            { text: transcriptionPrompt() },
+          ],
+        },
+      });
+      assertNotBlocked(response);
+      return response.text?.trim() || '';
+    },
+
+    answerQuestion: (question, excerpts, history) => generateText(askDiaryPrompt(question, excerpts, history)),
+
+    async analyzeEntry(content, moods, knownTags) {
+      const response = await requireAI().models.generateContent({
+        model: settings.geminiTextModel,
+        contents: enrichmentPrompt(content, moods, knownTags),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(enrichmentSchema(moods)),
+        },
+      });
+      assertNotBlocked(response);
+      return parseJsonReply(response.text || '');
+    },
+  };
 }
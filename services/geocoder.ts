@@ -0,0 +1,21 @@
+import { LocationSettings } from '../types';
+
+export interface Place {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Contract for turning coordinates into place names and back. Geocoders
+ * resolve to null or an empty list when nothing matches, and throw when the
+ * lookup itself failed; the locationService facade falls back to the offline
+ * place list then.
+ */
+export interface Geocoder {
+  readonly name: string;
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+  search(query: string): Promise<Place[]>;
+}
+
+export type GeocoderFactory = (settings: LocationSettings) => Geocoder;
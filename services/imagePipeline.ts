@@ -0,0 +1,66 @@
+import { ImageSettings } from '../types';
+import { ProcessedImage, processImageBlob } from './imageProcessing';
+import type { ImageJob } from './imageWorker';
+
+/**
+ * Entry point for adding photos. Work is sent to a shared worker thread so
+ * large photos do not freeze the editor; without worker support it runs here.
+ */
+
+interface ImageReply {
+  id: number;
+  result?: ProcessedImage;
+  error?: string;
+}
+
+interface PendingJob {
+  job: ImageJob;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null | undefined;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return worker = null;
+  try {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.error("Image worker could not start", err);
+    return worker = null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<ImageReply>) => {
+    const { id, result, error } = event.data;
+    const job = pending.get(id);
+    if (!job) return;
+    pending.delete(id);
+    if (result) job.resolve(result);
+    else job.reject(new Error(error || "Image processing failed"));
+  });
+
+  // A worker that fails to load hands its jobs back to the main thread for good
+  worker.addEventListener('error', (event) => {
+    console.error("Image worker failed", event.message);
+    worker?.terminate();
+    worker = null;
+    const stranded = [...pending.values()];
+    pending.clear();
+    stranded.forEach(({ job, resolve, reject }) => processImageBlob(job.file, job.settings).then(resolve, reject));
+  });
+
+  return worker;
+}
+
+export function optimizeImage(file: Blob, settings: ImageSettings): Promise<ProcessedImage> {
+  const target = getWorker();
+  if (!target) return processImageBlob(file, settings);
+  return new Promise((resolve, reject) => {
+    const job: ImageJob = { id: nextId++, file, settings };
+    pending.set(job.id, { job, resolve, reject });
+    target.postMessage(job);
+  });
+}
@@ -0,0 +1,112 @@
+import { ImageFormat, ImageSettings, PhotoInfo } from '../types';
+import { readExif } from './exifService';
+
+/**
+ * Decoding, orienting, resizing and encoding of one photo. Used inside the
+ * image worker, and on the main thread where workers or OffscreenCanvas are
+ * not available.
+ */
+
+export interface ProcessedImage {
+  dataUrl: string;
+  format: ImageFormat; // what was actually written
+  info: PhotoInfo;
+  location?: { latitude: number; longitude: number }; // from the photo's GPS tags, not stored with it
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Browsers apply EXIF orientation when decoding; older engines did not. Learned from the first rotated photo.
+let engineOrients: boolean | null = null;
+
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+async function encode(canvas: Canvas, type: string, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Image could not be encoded")), type, quality);
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Maps the stored pixels onto the upright canvas (w/h are the drawn, unrotated size)
+function applyOrientation(ctx: Context, orientation: number, w: number, h: number) {
+  switch (orientation) {
+    case 2: ctx.translate(w, 0); ctx.scale(-1, 1); break;
+    case 3: ctx.translate(w, h); ctx.rotate(Math.PI); break;
+    case 4: ctx.translate(0, h); ctx.scale(1, -1); break;
+    case 5: ctx.rotate(0.5 * Math.PI); ctx.scale(1, -1); break;
+    case 6: ctx.rotate(0.5 * Math.PI); ctx.translate(0, -h); break;
+    case 7: ctx.rotate(0.5 * Math.PI); ctx.translate(w, -h); ctx.scale(-1, 1); break;
+    case 8: ctx.rotate(-0.5 * Math.PI); ctx.translate(-w, 0); break;
+  }
+}
+
+export async function processImageBlob(blob: Blob, settings: ImageSettings): Promise<ProcessedImage> {
+  const exif = readExif(await blob.arrayBuffer());
+  const orientation = exif.orientation || 1;
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+  try {
+    const swaps = orientation >= 5;
+    if (swaps && exif.width && exif.height && exif.width !== exif.height) {
+      // A rotated photo that decodes at its stored size was not turned by the browser
+      engineOrients = !(bitmap.width === exif.width && bitmap.height === exif.height);
+    }
+    const manual = orientation > 1 && engineOrients === false;
+
+    const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const w = Math.max(1, Math.round(bitmap.width * scale));
+    const h = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = manual && swaps ? createCanvas(h, w) : createCanvas(w, h);
+    const ctx = canvas.getContext('2d') as Context | null;
+    if (!ctx) throw new Error("Canvas is not available");
+
+    if (manual) applyOrientation(ctx, orientation, w, h);
+    ctx.drawImage(bitmap, 0, 0, w, h);
+
+    let format = settings.format;
+    let output = await encode(canvas, MIME_TYPES[format], settings.quality);
+    // Unsupported types come back as PNG, which would be far larger than asked for
+    if (output.type !== MIME_TYPES[format]) {
+      format = 'jpeg';
+      output = await encode(canvas, MIME_TYPES.jpeg, settings.quality);
+    }
+
+    const info: PhotoInfo = { width: canvas.width, height: canvas.height };
+    if (exif.takenAt) info.takenAt = exif.takenAt;
+    if (exif.camera) info.camera = exif.camera;
+
+    return {
+      dataUrl: await blobToDataUrl(output),
+      format,
+      info,
+      location: exif.latitude !== undefined && exif.longitude !== undefined
+        ? { latitude: exif.latitude, longitude: exif.longitude }
+        : undefined,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,23 @@
+import { ImageSettings } from '../types';
+import { processImageBlob } from './imageProcessing';
+
+/**
+ * Runs the photo pipeline off the main thread. Each message is one job; the
+ * reply carries the same id.
+ */
+
+export interface ImageJob {
+  id: number;
+  file: Blob;
+  settings: ImageSettings;
+}
+
+self.addEventListener('message', async (event: MessageEvent<ImageJob>) => {
+  const { id, file, settings } = event.data;
+  try {
+    const result = await processImageBlob(file, settings);
+    self.postMessage({ id, result });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,180 @@
+import { addDays, addWeeks, differenceInCalendarDays, format, isValid, parseISO, startOfDay, startOfWeek, subDays, subMonths, subYears } from 'date-fns';
+import { DiaryEntry } from '../types';
+import { MOODS } from '../constants';
+import { groupByDay, toDayKey } from './dateUtils';
+import { toPlainText } from './markdownService';
+
+/**
+ * Patterns in the diary over a chosen period, computed from the entries
+ * alone. Every figure comes with the search query that shows its entries,
+ * so charts can drill down into the timeline.
+ */
+
+export type InsightRange = '30d' | '90d' | '1y' | 'all';
+
+export const INSIGHT_RANGES: { range: InsightRange; label: string }[] = [
+  { range: '30d', label: "30 days" },
+  { range: '90d', label: "3 months" },
+  { range: '1y', label: "Year" },
+  { range: 'all', label: "All time" },
+];
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+const WEEKDAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export interface WeekStat {
+  start: Date; // Monday
+  entries: number;
+  words: number;
+  moodAverage: number | null; // mean valence of the entries with a known mood
+  query: string;
+}
+
+export interface CountStat {
+  name: string;
+  count: number;
+  query: string;
+}
+
+export interface WeekdayStat {
+  label: string; // "Mon"
+  entries: number;
+  moodAverage: number | null;
+  moods: CountStat[]; // name is the mood value
+  query: string;
+}
+
+export interface Insights {
+  start: Date;
+  entries: number;
+  words: number;
+  averageWords: number;
+  activeDays: number;
+  currentStreak: number; // days in a row up to today (or yesterday)
+  longestStreak: number;
+  weeks: WeekStat[];
+  moods: CountStat[];
+  weekdays: WeekdayStat[];
+  topTags: CountStat[];
+  topPeople: CountStat[];
+}
+
+export function wordCount(content: string): number {
+  return toPlainText(content).split(/\s+/).filter(Boolean).length;
+}
+
+function rangeStart(range: InsightRange, entries: DiaryEntry[], now: Date): Date {
+  if (range === '30d') return startOfDay(subDays(now, 29));
+  if (range === '90d') return startOfDay(subMonths(now, 3));
+  if (range === '1y') return startOfDay(subYears(now, 1));
+  const times = entries.map(e => new Date(e.date).getTime()).filter(t => !isNaN(t));
+  return startOfDay(times.length > 0 ? new Date(Math.min(...times)) : now);
+}
+
+// "after:" is exclusive of the day it names, so ranges start from the day before
+export function periodQuery(start: Date, end?: Date): string {
+  const after = `after:${format(subDays(start, 1), 'yyyy-MM-dd')}`;
+  return end ? `${after} before:${format(end, 'yyyy-MM-dd')}` : after;
+}
+
+function quote(value: string): string {
+  const clean = value.replace(/"/g, '');
+  return /\s/.test(clean) ? `"${clean}"` : clean;
+}
+
+function moodAverage(entries: DiaryEntry[]): number | null {
+  const values = entries
+    .map(e => MOODS.find(m => m.value === e.mood)?.valence)
+    .filter((v): v is number => v !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function countBy(entries: DiaryEntry[], pick: (entry: DiaryEntry) => string[], limit: number, toQuery: (name: string) => string): CountStat[] {
+  const counts = new Map<string, number>();
+  entries.forEach(e => new Set(pick(e)).forEach(name => counts.set(name, (counts.get(name) || 0) + 1)));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([name, count]) => ({ name, count, query: toQuery(name) }));
+}
+
+function streaks(entries: DiaryEntry[], now: Date): { current: number; longest: number } {
+  const days = [...groupByDay(entries).keys()].sort();
+  let longest = 0;
+  let run = 0;
+  days.forEach((key, idx) => {
+    run = idx > 0 && differenceInCalendarDays(parseISO(key), parseISO(days[idx - 1])) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // Today does not break the streak until it is over
+  const written = new Set(days);
+  let day = written.has(toDayKey(now.toISOString())!) ? now : subDays(now, 1);
+  let current = 0;
+  while (written.has(format(day, 'yyyy-MM-dd'))) {
+    current++;
+    day = subDays(day, 1);
+  }
+  return { current, longest };
+}
+
+export function computeInsights(allEntries: DiaryEntry[], range: InsightRange, now = new Date()): Insights {
+  const start = rangeStart(range, allEntries, now);
+  // Up to the end of today, the same days a "before:" tomorrow query shows
+  const end = startOfDay(addDays(now, 1));
+  const entries = allEntries.filter(e => {
+    const d = new Date(e.date);
+    return isValid(d) && d >= start && d < end;
+  });
+  const scope = periodQuery(start, end);
+  const withScope = (filter: string) => `${filter} ${scope}`;
+  const words = entries.map(e => wordCount(e.content));
+  const totalWords = words.reduce((a, b) => a + b, 0);
+  const wordsById = new Map(entries.map((e, idx) => [e.id, words[idx]]));
+
+  const weeks: WeekStat[] = [];
+  for (let week = startOfWeek(start, WEEK_OPTIONS); week <= now; week = addWeeks(week, 1)) {
+    const next = addWeeks(week, 1);
+    const inWeek = entries.filter(e => {
+      const d = new Date(e.date);
+      return d >= week && d < next;
+    });
+    weeks.push({
+      start: week,
+      entries: inWeek.length,
+      words: inWeek.reduce((sum, e) => sum + (wordsById.get(e.id) || 0), 0),
+      moodAverage: moodAverage(inWeek),
+      // The first and last weeks only count the days inside the range
+      query: periodQuery(week < start ? start : week, next > end ? end : next),
+    });
+  }
+
+  const weekdays: WeekdayStat[] = WEEKDAY_KEYS.map((key, idx) => {
+    const onDay = entries.filter(e => (new Date(e.date).getDay() + 6) % 7 === idx);
+    const dayQuery = withScope(`weekday:${key}`);
+    return {
+      label: format(addDays(startOfWeek(now, WEEK_OPTIONS), idx), 'EEE'),
+      entries: onDay.length,
+      moodAverage: moodAverage(onDay),
+      moods: countBy(onDay, e => e.mood ? [e.mood] : [], MOODS.length, mood => `${dayQuery} mood:${mood}`),
+      query: dayQuery,
+    };
+  });
+
+  const { current, longest } = streaks(entries, now);
+
+  return {
+    start,
+    entries: entries.length,
+    words: totalWords,
+    averageWords: entries.length > 0 ? Math.round(totalWords / entries.length) : 0,
+    activeDays: groupByDay(entries).size,
+    currentStreak: current,
+    longestStreak: longest,
+    weeks,
+    moods: countBy(entries, e => e.mood ? [e.mood] : [], MOODS.length, mood => withScope(`mood:${mood}`)),
+    weekdays,
+    topTags: countBy(entries, e => e.tags || [], 8, tag => withScope(`tag:${tag}`)),
+    topPeople: countBy(entries, e => e.people || [], 8, name => withScope(`person:${quote(name)}`)),
+  };
+}
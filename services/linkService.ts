@@ -0,0 +1,93 @@
+import { format, isValid } from 'date-fns';
+import { DiaryEntry } from '../types';
+import { tokenize } from './searchService';
+import { toPlainText } from './markdownService';
+import { AIResult, findRelatedEntries } from './aiService';
+import { canSendToAI, PRIVATE_ENTRY_MESSAGE } from './privacyService';
+
+/**
+ * Links and named threads between entries. Links are stored one way, on the
+ * entry that refers to another; backlinks are derived from them.
+ */
+
+// How many locally similar entries are offered to the AI for link suggestions
+const CANDIDATE_LIMIT = 8;
+const SNIPPET_WORDS = 40;
+
+export function entrySnippet(entry: Pick<DiaryEntry, 'content'>, words = SNIPPET_WORDS): string {
+  const parts = toPlainText(entry.content).trim().split(/\s+/).filter(Boolean);
+  return parts.slice(0, words).join(' ') + (parts.length > words ? '…' : '');
+}
+
+export function entryLabel(entry: DiaryEntry): string {
+  const d = new Date(entry.date);
+  const day = isValid(d) ? format(d, 'MMM d, yyyy') : 'Undated';
+  return `${day} · ${entrySnippet(entry, 8) || 'Untitled'}`;
+}
+
+/**
+ * For each entry id, the ids of the entries that link to it.
+ */
+export function buildBacklinks(entries: DiaryEntry[]): Map<string, string[]> {
+  const backlinks = new Map<string, string[]>();
+  for (const entry of entries) {
+    for (const target of entry.links || []) {
+      const list = backlinks.get(target);
+      if (list) list.push(entry.id);
+      else backlinks.set(target, [entry.id]);
+    }
+  }
+  return backlinks;
+}
+
+// Thread names with the most recently active first
+export function getThreadNames(entries: DiaryEntry[]): string[] {
+  const latest = new Map<string, number>();
+  for (const entry of entries) {
+    const time = new Date(entry.date).getTime() || 0;
+    entry.threads?.forEach(name => latest.set(name, Math.max(latest.get(name) ?? 0, time)));
+  }
+  return [...latest.keys()].sort((a, b) => latest.get(b)! - latest.get(a)! || a.localeCompare(b));
+}
+
+/**
+ * Entries most likely to be related to `entry`, judged locally by shared
+ * threads, tags and words. Already linked entries are left out.
+ */
+export function relatedCandidates(entry: Pick<DiaryEntry, 'id' | 'content' | 'tags' | 'threads' | 'links'>, entries: DiaryEntry[], limit = CANDIDATE_LIMIT): DiaryEntry[] {
+  const words = new Set(tokenize(toPlainText(entry.content)).filter(w => w.length > 3));
+  const excluded = new Set([entry.id, ...(entry.links || [])]);
+
+  return entries
+    .filter(other => !excluded.has(other.id))
+    .map(other => {
+      const sharedThreads = (other.threads || []).filter(t => entry.threads?.includes(t)).length;
+      const sharedTags = (other.tags || []).filter(t => entry.tags?.includes(t)).length;
+      const otherWords = new Set(tokenize(toPlainText(other.content)).filter(w => w.length > 3));
+      let sharedWords = 0;
+      otherWords.forEach(w => { if (words.has(w)) sharedWords++; });
+      const overlap = sharedWords / Math.max(1, Math.min(words.size, otherWords.size));
+      return { other, score: sharedThreads * 3 + sharedTags * 2 + overlap * 5 };
+    })
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(c => c.other);
+}
+
+/**
+ * Asks the AI which of the local candidates are really related. Only short
+ * snippets of each entry are sent, and never of a private one.
+ */
+export async function suggestLinks(entry: Pick<DiaryEntry, 'id' | 'content' | 'tags' | 'threads' | 'links' | 'isPrivate'>, entries: DiaryEntry[]): Promise<AIResult<DiaryEntry[]>> {
+  if (!canSendToAI(entry)) return { status: 'disabled', message: PRIVATE_ENTRY_MESSAGE };
+  const candidates = relatedCandidates(entry, entries.filter(canSendToAI));
+  if (candidates.length === 0) return { status: 'success', value: [] };
+
+  const result = await findRelatedEntries(
+    entrySnippet(entry, SNIPPET_WORDS * 2),
+    candidates.map(c => entrySnippet(c))
+  );
+  if (result.status !== 'success') return result;
+  return { status: 'success', value: result.value.map(idx => candidates[idx]) };
+}
@@ -0,0 +1,81 @@
+import { EntryLocation, GeocoderKind, LocationSettings } from '../types';
+import { Geocoder, GeocoderFactory, Place } from './geocoder';
+import { createOfflineGeocoder } from './offlineGeocoder';
+import { createNominatimGeocoder } from './nominatimGeocoder';
+
+const GEOCODERS: Record<GeocoderKind, GeocoderFactory> = {
+  'offline': createOfflineGeocoder,
+  'nominatim': createNominatimGeocoder,
+};
+
+const offline = createOfflineGeocoder();
+let geocoder: Geocoder = offline;
+
+/**
+ * Switches the geocoder used for place names. Called whenever the location
+ * settings change.
+ */
+export function configureGeocoder(settings: LocationSettings) {
+  const factory = GEOCODERS[settings.geocoder] || createOfflineGeocoder;
+  geocoder = factory(settings);
+}
+
+export function getGeocoder(): Geocoder {
+  return geocoder;
+}
+
+// A failed online lookup still gives the user something from the offline list
+export async function reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
+  try {
+    return await geocoder.reverse(latitude, longitude);
+  } catch (e) {
+    console.error(`${geocoder.name} reverse lookup failed`, e);
+    return geocoder === offline ? null : offline.reverse(latitude, longitude);
+  }
+}
+
+export async function searchPlaces(query: string): Promise<Place[]> {
+  try {
+    return await geocoder.search(query);
+  } catch (e) {
+    console.error(`${geocoder.name} search failed`, e);
+    return geocoder === offline ? [] : offline.search(query);
+  }
+}
+
+export function hasCoordinates(location?: EntryLocation): location is EntryLocation & { latitude: number; longitude: number } {
+  return typeof location?.latitude === 'number' && typeof location?.longitude === 'number';
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(3)}° ${latitude >= 0 ? 'N' : 'S'}`;
+  const lon = `${Math.abs(longitude).toFixed(3)}° ${longitude >= 0 ? 'E' : 'W'}`;
+  return `${lat}, ${lon}`;
+}
+
+export function locationLabel(location: EntryLocation): string {
+  if (location.name) return location.name;
+  return hasCoordinates(location) ? formatCoordinates(location.latitude, location.longitude) : '';
+}
+
+/**
+ * The device's current position, with the failure explained in words the
+ * user can act on.
+ */
+export function getCurrentPosition(): Promise<{ latitude: number; longitude: number }> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This browser can't share your location."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      error => reject(new Error(
+        error.code === error.PERMISSION_DENIED ? "Location access was blocked. Allow it in your browser, or type a place instead."
+          : error.code === error.TIMEOUT ? "Finding your location took too long. Try again, or type a place instead."
+          : "Your location isn't available right now."
+      )),
+      { enableHighAccuracy: false, timeout: 15000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
@@ -0,0 +1,289 @@
+/**
+ * The small Markdown dialect entries are written in: headings, paragraphs,
+ * bullet, numbered and check lists, quotes, code, rules, and inline emphasis,
+ * code and links. It is parsed into a tree that components render as React
+ * elements, so no HTML from an entry ever reaches the page.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] };
+
+export interface ListItem {
+  checked?: boolean; // set for checklist items only
+  children: Inline[];
+}
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s{0,3}(```|~~~)/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only web and mail links are rendered; anything else (javascript:, data:, ...) stays plain text
+export function isSafeUrl(href: string): boolean {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Escapes, code spans, bold, strikethrough, italics and links, in order of precedence
+const INLINE = /\\([\\`*_~\[\]()#>+\-.!])|(`+)([\s\S]*?[^`])\2(?!`)|\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}])|~~(?=\S)([\s\S]*?\S)~~|\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<![\p{L}\p{N}])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\p{L}\p{N}])|\[([^\]\n]+)\]\(\s*((?:[^()\s]|\([^()\s]*\))+)\s*\)/gu;
+
+function pushText(nodes: Inline[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  const pattern = new RegExp(INLINE.source, INLINE.flags);
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    pushText(nodes, text.slice(last, match.index));
+    last = match.index + match[0].length;
+    const [, escaped, , code, strong, strongAlt, strike, em, emAlt, label, href] = match;
+    if (escaped !== undefined) pushText(nodes, escaped);
+    else if (code !== undefined) nodes.push({ type: 'code', text: code.trim() || code });
+    else if (strong !== undefined || strongAlt !== undefined) nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    else if (strike !== undefined) nodes.push({ type: 'strike', children: parseInline(strike) });
+    else if (em !== undefined || emAlt !== undefined) nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    else if (label !== undefined) {
+      const children = parseInline(label);
+      if (isSafeUrl(href)) nodes.push({ type: 'link', href, children });
+      else children.forEach(child => child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child));
+    }
+  }
+  pushText(nodes, text.slice(last));
+  return nodes;
+}
+
+function startsBlock(line: string): boolean {
+  return HEADING.test(line) || RULE.test(line) || FENCE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // closing fence, if any
+      blocks.push({ type: 'code', text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) inner.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', blocks: parseMarkdown(inner.join('\n')) });
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      const ordered = first[2] !== undefined;
+      const items: ListItem[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          if ((item[2] !== undefined) !== ordered) break;
+          const box = item[3].match(CHECKBOX);
+          items.push(box
+            ? { checked: box[1] !== ' ', children: parseInline(box[2]) }
+            : { children: parseInline(item[3]) });
+          i++;
+        } else if (lines[i].trim() && !startsBlock(lines[i]) && /^\s+/.test(lines[i])) {
+          // An indented line continues the previous item
+          const current = items[items.length - 1];
+          current.children = parseInline(`${inlineSource(current.children)}\n${lines[i].trim()}`);
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(first[2]) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !(paragraph.length > 0 && startsBlock(lines[i]))) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// Rebuilds Markdown for already parsed inline nodes, used when an item spans lines
+function inlineSource(nodes: Inline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': return node.text.replace(/([\\`*_~\[\]])/g, '\\$1');
+      case 'code': return `\`${node.text}\``;
+      case 'strong': return `**${inlineSource(node.children)}**`;
+      case 'em': return `*${inlineSource(node.children)}*`;
+      case 'strike': return `~~${inlineSource(node.children)}~~`;
+      case 'link': return `[${inlineSource(node.children)}](${node.href})`;
+    }
+  }).join('');
+}
+
+function inlineText(nodes: Inline[]): string {
+  return nodes.map(node => node.type === 'text' || node.type === 'code' ? node.text : inlineText(node.children)).join('');
+}
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => inlineText(item.children)).join('\n');
+    case 'quote':
+      return block.blocks.map(blockText).join('\n\n');
+    case 'code':
+      return block.text;
+    case 'rule':
+      return '';
+  }
+}
+
+/**
+ * The words of an entry without any Markdown syntax, for search, snippets
+ * and AI prompts.
+ */
+export function toPlainText(source: string): string {
+  return parseMarkdown(source).map(blockText).filter(Boolean).join('\n\n');
+}
+
+// --- Editing helpers for the toolbar ---
+
+export type FormatAction = 'bold' | 'italic' | 'strike' | 'code' | 'link' | 'heading' | 'bullet' | 'numbered' | 'checklist' | 'quote';
+
+export interface TextSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const WRAPPERS: Partial<Record<FormatAction, [string, string, string]>> = {
+  bold: ['**', '**', 'bold text'],
+  italic: ['*', '*', 'italic text'],
+  strike: ['~~', '~~', 'struck text'],
+  code: ['`', '`', 'code'],
+};
+
+const LINE_PREFIXES: Partial<Record<FormatAction, string>> = {
+  heading: '## ',
+  bullet: '- ',
+  checklist: '- [ ] ',
+  quote: '> ',
+};
+
+function wrap({ text, start, end }: TextSelection, before: string, after: string, placeholder: string): TextSelection {
+  const selected = text.slice(start, end);
+  // Already wrapped: unwrap instead
+  if (text.slice(start - before.length, start) === before && text.slice(end, end + after.length) === after) {
+    return {
+      text: text.slice(0, start - before.length) + selected + text.slice(end + after.length),
+      start: start - before.length,
+      end: end - before.length,
+    };
+  }
+  const inner = selected || placeholder;
+  return {
+    text: text.slice(0, start) + before + inner + after + text.slice(end),
+    start: start + before.length,
+    end: start + before.length + inner.length,
+  };
+}
+
+function prefixLines({ text, start, end }: TextSelection, action: FormatAction): TextSelection {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', Math.max(end - 1, start));
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+
+  const prefixFor = (idx: number) => action === 'numbered' ? `${idx + 1}. ` : LINE_PREFIXES[action]!;
+  const existing = action === 'numbered' ? /^\d+[.)]\s+/ : new RegExp(`^${prefixFor(0).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+  const allPrefixed = lines.every(line => existing.test(line));
+
+  // Switching between list kinds or heading levels replaces the old marker
+  const strip = (line: string) => {
+    if (action === 'heading') return line.replace(/^#+\s+/, '');
+    if (action === 'quote') return line;
+    return line.replace(LIST_ITEM, '$3').replace(CHECKBOX, '$2');
+  };
+  const changed = lines
+    .map((line, idx) => allPrefixed ? line.replace(existing, '') : prefixFor(idx) + strip(line))
+    .join('\n');
+  return {
+    text: text.slice(0, lineStart) + changed + text.slice(lineEnd),
+    start: lineStart,
+    end: lineStart + changed.length,
+  };
+}
+
+/**
+ * Applies a toolbar action to the selected range of the editor text and
+ * returns the new text with the range to select afterwards.
+ */
+export function applyFormat(selection: TextSelection, action: FormatAction): TextSelection {
+  const wrapper = WRAPPERS[action];
+  if (wrapper) return wrap(selection, ...wrapper);
+  if (action === 'link') {
+    const { text, start, end } = selection;
+    const label = text.slice(start, end) || 'link text';
+    const url = 'https://';
+    const inserted = `[${label}](${url})`;
+    // Select the address so it can be typed over straight away
+    const urlStart = start + label.length + 3;
+    return { text: text.slice(0, start) + inserted + text.slice(end), start: urlStart, end: urlStart + url.length };
+  }
+  return prefixLines(selection, action);
+}
@@ -0,0 +1,136 @@
+import { AIErrorKind, AIProvider, AIProviderError } from './aiProvider';
+
+/**
+ * Deterministic offline provider: the same input always yields the same
+ * output, with no network access. Useful for tests and local development.
+ * Including a marker such as "[mock:rate-limited]" in the text makes the call
+ * fail with that error kind, to exercise error handling.
+ */
+
+const FAILURE_MARKER = /\[mock:(missing-key|rate-limited|safety-blocked|network|failed)\]/;
+
+function failIfRequested(text: string) {
+  const match = text.match(FAILURE_MARKER);
+  if (match) throw new AIProviderError(match[1] as AIErrorKind, `Mock provider simulated "${match[1]}".`);
+}
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Longer words only, so "the" and "and" do not make everything related
+function keywords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[\p{L}\p{N}]{5,}/gu) || []));
+}
+
+function excerpt(text: string, words = 8): string {
+  const parts = text.trim().split(/\s+/).filter(Boolean);
+  return parts.slice(0, words).join(' ') + (parts.length > words ? '…' : '');
+}
+
+const REFLECTIONS = [
+  (snippet: string) => `There is quiet strength in "${snippet}". Moments like this become the threads you will be glad you kept.`,
+  (snippet: string) => `"${snippet}" — a small page of a larger story. Notice what it taught you, and let it stay.`,
+  (snippet: string) => `Reading "${snippet}", it feels like you were paying attention to your life. That in itself is a gift.`,
+];
+
+const MOOD_WORDS: Record<string, RegExp> = {
+  joyful: /\b(happy|joy|great|fun|laugh)/i,
+  grateful: /\b(grateful|thankful|thank)/i,
+  calm: /\b(calm|quiet|peace|relax)/i,
+  hopeful: /\b(hope|looking forward|excited)/i,
+  tired: /\b(tired|exhausted|sleepy)/i,
+  anxious: /\b(anxious|anxiety|nervous|worried|stress)/i,
+  sad: /\b(sad|cried|lonely|miss)/i,
+  angry: /\b(angry|furious|annoyed)/i,
+};
+
+const EVENT_WORDS = /\b(birthday|wedding|interview|concert|funeral|graduation|holiday|trip)\b/gi;
+
+// Capitalised words right after one of the given prepositions, e.g. "with Anna"
+function namesAfter(text: string, words: string): string[] {
+  const pattern = new RegExp(`\\b(?:${words})\\s+((?:[A-Z][\\p{L}'-]+\\s?)+)`, 'gu');
+  return [...new Set([...text.matchAll(pattern)].map(m => m[1].trim()))];
+}
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'Mock (offline)',
+
+    isConfigured: () => true,
+
+    async generateReflection(content, date, style) {
+      failIfRequested(content);
+      // Changing the persona changes the pick, so template switches are visible offline
+      const pick = REFLECTIONS[hash(`${date}|${content}|${style.template}`) % REFLECTIONS.length];
+      return pick(excerpt(content));
+    },
+
+    async generateImage(content, date, style) {
+      failIfRequested(content);
+      // Two-stop gradient whose colours are derived from the text and style
+      const h = hash(`${content}|${style.template}`);
+      const hueA = h % 360;
+      const hueB = (hueA + 40 + (h >> 9) % 80) % 360;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900" viewBox="0 0 16 9">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hueA},70%,75%)"/><stop offset="1" stop-color="hsl(${hueB},60%,55%)"/>`
+        + `</linearGradient></defs><rect width="16" height="9" fill="url(#g)"/>`
+        + `<circle cx="${4 + h % 8}" cy="${2 + (h >> 4) % 5}" r="2.5" fill="white" opacity="0.25"/></svg>`;
+      return `data:image/svg+xml;base64,${btoa(svg)}`;
+    },
+
+    async generateSummary(entries) {
+      entries.forEach(failIfRequested);
+      if (entries.length === 0) return "There is nothing to summarize yet.";
+      const first = excerpt(entries[0], 12);
+      const last = excerpt(entries[entries.length - 1], 12);
+      return `Across ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}, your thread runs from "${first}" to "${last}". Each moment in between adds to the story.`;
+    },
+
+    async combineSummaries(summaries, period) {
+      summaries.forEach(failIfRequested);
+      return `Looking back on ${period} in ${summaries.length} chapters: it opens with ${excerpt(summaries[0], 12)} and closes with ${excerpt(summaries[summaries.length - 1], 12)}`;
+    },
+
+    async transcribeAudio(audio) {
+      const seconds = Math.max(1, Math.round(audio.size / 4000));
+      return `This is a mock transcript of a voice note about ${seconds} seconds long.`;
+    },
+
+    async findRelated(content, candidates) {
+      failIfRequested(content);
+      const words = keywords(content);
+      return candidates
+        .map((text, idx) => ({ idx, shared: [...keywords(text)].filter(w => words.has(w)).length }))
+        .filter(c => c.shared >= 2)
+        .map(c => c.idx);
+    },
+
+    async answerQuestion(question, excerpts) {
+      failIfRequested(question);
+      if (excerpts.length === 0) return "Your diary doesn't seem to mention that.";
+      const cited = excerpts.slice(0, 2).map((text, idx) => `"${excerpt(text, 10)}" [${idx + 1}]`);
+      return `Looking through your diary, the closest moments are ${cited.join(' and ')}.`;
+    },
+
+    async analyzeEntry(content, moods, knownTags) {
+      failIfRequested(content);
+      const mood = moods.find(m => MOOD_WORDS[m]?.test(content)) || 'none';
+      const lower = content.toLowerCase();
+      const tags = knownTags.filter(tag => lower.includes(tag.replace(/-/g, ' '))).slice(0, 3);
+      return {
+        mood,
+        tags: tags.length > 0 ? tags : [...keywords(content)].slice(0, 2),
+        people: namesAfter(content, 'with|and|met|saw|called'),
+        places: namesAfter(content, 'in|to|at|from'),
+        events: [...new Set((content.match(EVENT_WORDS) || []).map(w => w.toLowerCase()))],
+      };
+    },
+  };
+}
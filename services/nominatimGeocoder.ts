@@ -0,0 +1,58 @@
+import { Geocoder, Place } from './geocoder';
+
+/**
+ * OpenStreetMap's public Nominatim service. Coordinates and searches leave the
+ * device, so this is opt-in from Settings.
+ */
+
+const BASE_URL = 'https://nominatim.openstreetmap.org';
+
+// Address parts that name the locality, most specific first
+const LOCALITY_KEYS = ['city', 'town', 'village', 'hamlet', 'suburb', 'municipality', 'county'];
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const text = (v: unknown): string | undefined => typeof v === 'string' && v ? v : undefined;
+
+// Short "Town, Country" names rather than the full postal address
+function shortName(result: unknown): string | null {
+  if (!isObject(result)) return null;
+  const address = isObject(result.address) ? result.address : {};
+  const locality = LOCALITY_KEYS.map(key => text(address[key])).find(Boolean);
+  const parts = [locality, text(address.country)].filter(Boolean);
+  if (parts.length > 0) return parts.join(', ');
+  return text(result.display_name) ?? null;
+}
+
+async function request(path: string, params: Record<string, string>): Promise<unknown> {
+  const query = new URLSearchParams({ format: 'jsonv2', addressdetails: '1', ...params });
+  const response = await fetch(`${BASE_URL}/${path}?${query}`, {
+    headers: { 'Accept-Language': navigator.language || 'en' },
+  });
+  if (!response.ok) throw new Error(`Nominatim responded with ${response.status}`);
+  return response.json();
+}
+
+export function createNominatimGeocoder(): Geocoder {
+  return {
+    name: 'OpenStreetMap',
+
+    async reverse(latitude, longitude) {
+      const result = await request('reverse', { lat: String(latitude), lon: String(longitude), zoom: '14' });
+      return isObject(result) && result.error ? null : shortName(result);
+    },
+
+    async search(query) {
+      const results = await request('search', { q: query, limit: '5' });
+      if (!Array.isArray(results)) return [];
+      return results
+        .map((r): Place | null => {
+          if (!isObject(r)) return null;
+          const name = shortName(r);
+          const latitude = Number(r.lat);
+          const longitude = Number(r.lon);
+          return name && isFinite(latitude) && isFinite(longitude) ? { name, latitude, longitude } : null;
+        })
+        .filter((p): p is Place => p !== null);
+    },
+  };
+}
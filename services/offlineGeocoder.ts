@@ -0,0 +1,118 @@
+import { Geocoder, Place } from './geocoder';
+
+/**
+ * Local stand-in geocoder: names the nearest large city from a built-in list.
+ * Coarse, but it needs no network and never sends a position anywhere.
+ */
+
+// [city, country, latitude, longitude]
+const CITIES: [string, string, number, number][] = [
+  ['Amsterdam', 'Netherlands', 52.37, 4.9],
+  ['Athens', 'Greece', 37.98, 23.73],
+  ['Auckland', 'New Zealand', -36.85, 174.76],
+  ['Bangkok', 'Thailand', 13.76, 100.5],
+  ['Barcelona', 'Spain', 41.39, 2.17],
+  ['Beijing', 'China', 39.9, 116.41],
+  ['Berlin', 'Germany', 52.52, 13.4],
+  ['Bogotá', 'Colombia', 4.71, -74.07],
+  ['Boston', 'United States', 42.36, -71.06],
+  ['Brussels', 'Belgium', 50.85, 4.35],
+  ['Budapest', 'Hungary', 47.5, 19.04],
+  ['Buenos Aires', 'Argentina', -34.6, -58.38],
+  ['Cairo', 'Egypt', 30.04, 31.24],
+  ['Cape Town', 'South Africa', -33.92, 18.42],
+  ['Chicago', 'United States', 41.88, -87.63],
+  ['Copenhagen', 'Denmark', 55.68, 12.57],
+  ['Delhi', 'India', 28.61, 77.21],
+  ['Denver', 'United States', 39.74, -104.99],
+  ['Dubai', 'United Arab Emirates', 25.2, 55.27],
+  ['Dublin', 'Ireland', 53.35, -6.26],
+  ['Edinburgh', 'United Kingdom', 55.95, -3.19],
+  ['Helsinki', 'Finland', 60.17, 24.94],
+  ['Hong Kong', 'China', 22.32, 114.17],
+  ['Honolulu', 'United States', 21.31, -157.86],
+  ['Istanbul', 'Turkey', 41.01, 28.98],
+  ['Jakarta', 'Indonesia', -6.21, 106.85],
+  ['Johannesburg', 'South Africa', -26.2, 28.05],
+  ['Kyiv', 'Ukraine', 50.45, 30.52],
+  ['Lagos', 'Nigeria', 6.52, 3.38],
+  ['Lima', 'Peru', -12.05, -77.04],
+  ['Lisbon', 'Portugal', 38.72, -9.14],
+  ['London', 'United Kingdom', 51.51, -0.13],
+  ['Los Angeles', 'United States', 34.05, -118.24],
+  ['Madrid', 'Spain', 40.42, -3.7],
+  ['Manchester', 'United Kingdom', 53.48, -2.24],
+  ['Manila', 'Philippines', 14.6, 120.98],
+  ['Melbourne', 'Australia', -37.81, 144.96],
+  ['Mexico City', 'Mexico', 19.43, -99.13],
+  ['Miami', 'United States', 25.76, -80.19],
+  ['Milan', 'Italy', 45.46, 9.19],
+  ['Montreal', 'Canada', 45.5, -73.57],
+  ['Moscow', 'Russia', 55.76, 37.62],
+  ['Mumbai', 'India', 19.08, 72.88],
+  ['Munich', 'Germany', 48.14, 11.58],
+  ['Nairobi', 'Kenya', -1.29, 36.82],
+  ['New York', 'United States', 40.71, -74.01],
+  ['Osaka', 'Japan', 34.69, 135.5],
+  ['Oslo', 'Norway', 59.91, 10.75],
+  ['Paris', 'France', 48.86, 2.35],
+  ['Prague', 'Czechia', 50.08, 14.44],
+  ['Reykjavík', 'Iceland', 64.15, -21.94],
+  ['Rio de Janeiro', 'Brazil', -22.91, -43.17],
+  ['Rome', 'Italy', 41.9, 12.5],
+  ['San Francisco', 'United States', 37.77, -122.42],
+  ['Santiago', 'Chile', -33.45, -70.67],
+  ['São Paulo', 'Brazil', -23.55, -46.63],
+  ['Seattle', 'United States', 47.61, -122.33],
+  ['Seoul', 'South Korea', 37.57, 126.98],
+  ['Shanghai', 'China', 31.23, 121.47],
+  ['Singapore', 'Singapore', 1.35, 103.82],
+  ['Stockholm', 'Sweden', 59.33, 18.07],
+  ['Sydney', 'Australia', -33.87, 151.21],
+  ['Taipei', 'Taiwan', 25.03, 121.57],
+  ['Tokyo', 'Japan', 35.68, 139.69],
+  ['Toronto', 'Canada', 43.65, -79.38],
+  ['Vancouver', 'Canada', 49.28, -123.12],
+  ['Vienna', 'Austria', 48.21, 16.37],
+  ['Warsaw', 'Poland', 52.23, 21.01],
+  ['Zurich', 'Switzerland', 47.38, 8.54],
+];
+
+// Also drawn on the offline map so there is something to get one's bearings by
+export const REFERENCE_PLACES: Place[] = CITIES.map(([city, , latitude, longitude]) => ({ name: city, latitude, longitude }));
+
+const NEAR_KM = 25;
+const REGION_KM = 150;
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function createOfflineGeocoder(): Geocoder {
+  return {
+    name: 'Offline place list',
+
+    async reverse(latitude, longitude) {
+      let best: { label: string; km: number } | null = null;
+      for (const [city, country, lat, lon] of CITIES) {
+        const km = distanceKm(latitude, longitude, lat, lon);
+        if (!best || km < best.km) best = { label: `${city}, ${country}`, km };
+      }
+      if (!best || best.km > REGION_KM) return null;
+      return best.km <= NEAR_KM ? best.label : `Near ${best.label}`;
+    },
+
+    async search(query) {
+      const q = query.trim().toLowerCase();
+      if (!q) return [];
+      return CITIES
+        .filter(([city, country]) => `${city}, ${country}`.toLowerCase().includes(q))
+        .slice(0, 5)
+        .map(([city, country, latitude, longitude]): Place => ({ name: `${city}, ${country}`, latitude, longitude }));
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { AIProviderSettings } from '../types';
+import { AIProvider, AIProviderError, errorKindForStatus } from './aiProvider';
+import { reflectionPrompt, visualPromptRequest, imagePrompt, summaryPrompt, combineSummariesPrompt, relatedEntriesPrompt, parseRelatedEntries, askDiaryPrompt, enrichmentSchema, enrichmentPrompt, parseJsonReply } from './prompts';
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// First element of a list in the reply; anything else means the server does not speak this API
+function firstItem(reply: unknown, key: string): Record<string, unknown> {
+  const list = isObject(reply) ? reply[key] : undefined;
+  if (!Array.isArray(list) || !isObject(list[0])) {
+    throw new AIProviderError('failed', `The server sent an unexpected reply without "${key}".`);
+  }
+  return list[0];
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat/images HTTP API, such as
+ * Ollama, LM Studio, llama.cpp or vLLM running locally.
+ */
+export function createOpenAICompatibleProvider(settings: AIProviderSettings): AIProvider {
+  const baseUrl = settings.openAIBaseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AIProviderError(errorKindForStatus(response.status), `${path} failed with HTTP ${response.status}: ${detail}`);
+    }
+    return response.json().catch(() => {
+      throw new AIProviderError('failed', `${path} did not return JSON.`);
+    });
+  };
+
+  const authHeaders = (): Record<string, string> =>
+    settings.openAIApiKey ? { Authorization: `Bearer ${settings.openAIApiKey}` } : {};
+
+  const generateText = async (prompt: string, extra: Record<string, unknown> = {}): Promise<string> => {
+    const data = await post('/chat/completions', {
+      model: settings.openAIModel,
+      messages: [{ role: 'user', content: prompt }],
+      ...extra,
+    });
+    const choice = firstItem(data, 'choices');
+    if (choice.finish_reason === 'content_filter') {
+      throw new AIProviderError('safety-blocked', "The model's content filter blocked this response.");
+    }
+    const message = choice.message;
+    return isObject(message) && typeof message.content === 'string' ? message.content.trim() : '';
+  };
+
+  return {
+    name: 'OpenAI-compatible',
+
+    isConfigured: () => !!baseUrl && !!settings.openAIModel,
+
+    generateReflection: (content, date, style) => generateText(reflectionPrompt(content, date, style)),
+
+    async generateImage(content, date, style) {
+      if (!settings.openAIImageModel) return null;
+      const visualPrompt = (await generateText(visualPromptRequest(content))) || content;
+      const data = await post('/images/generations', {
+        model: settings.openAIImageModel,
+        prompt: imagePrompt(visualPrompt, date, style),
+        size: '1792x1024',
+        response_format: 'b64_json',
+      });
+      const image = firstItem(data, 'data');
+      if (typeof image.b64_json === 'string' && image.b64_json) return `data:image/png;base64,${image.b64_json}`;
+      return typeof image.url === 'string' && image.url ? image.url : null;
+    },
+
+    generateSummary: (entries, period) => generateText(summaryPrompt(entries, period)),
+
+    combineSummaries: (summaries, period) => generateText(combineSummariesPrompt(summaries, period)),
+
+    async findRelated(content, candidates) {
+      const reply = await generateText(relatedEntriesPrompt(content, candidates));
+      return parseRelatedEntries(reply, candidates.length);
+    },
+
+    async transcribeAudio(audio) {
+      if (!settings.openAIAudioModel) return null;
+      const form = new FormData();
+      const extension = audio.type.includes('mp4') ? 'm4a' : audio.type.includes('ogg') ? 'ogg' : 'webm';
+      form.append('file', audio, `voice-note.${extension}`);
+      form.append('model', settings.openAIAudioModel);
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: form,
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new AIProviderError(errorKindForStatus(response.status), `/audio/transcriptions failed with HTTP ${response.status}: ${detail}`);
+      }
+      const data: unknown = await response.json();
+      return isObject(data) && typeof data.text === 'string' ? data.text.trim() : '';
+    },
+
+    answerQuestion: (question, excerpts, history) => generateText(askDiaryPrompt(question, excerpts, history)),
+
+    async analyzeEntry(content, moods, knownTags) {
+      // Servers without structured output ignore response_format; the reply is parsed leniently either way
+      const reply = await generateText(enrichmentPrompt(content, moods, knownTags), {
+        response_format: { type: 'json_schema', json_schema: { name: 'entry_metadata', strict: true, schema: enrichmentSchema(moods) } },
+      });
+      return parseJsonReply(reply);
+    },
+  };
+}
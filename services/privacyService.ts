@@ -0,0 +1,173 @@
+import { DiaryEntry, PrivacySettings } from '../types';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+/**
+ * What may leave the device for the AI. Private entries are never sent, the
+ * global switch turns AI off entirely, and prompts can be redacted first.
+ * Every request that goes out is logged.
+ */
+
+// Only when, what for and how much is stored; the text itself stays in memory
+const LOG_KEY = 'lifeThreads_aiLog';
+const MAX_LOG_ENTRIES = 200;
+
+export type RedactionKind = 'name' | 'email' | 'phone' | 'address';
+
+export interface AILogEntry {
+  id: string;
+  sentAt: string; // ISO string
+  operation: string; // e.g. "reflection", "summary"
+  provider: string;
+  characters: number;
+  redactions: number;
+  attachment?: string; // e.g. an audio recording, which cannot be redacted
+  text?: string; // what was sent, only for requests made since the app was opened or unlocked
+}
+
+export interface Redaction {
+  texts: string[];
+  count: number;
+  placeholders: Map<string, string>; // placeholder -> original text
+}
+
+let privacy: PrivacySettings = DEFAULT_SETTINGS.privacy;
+let knownNames: string[] = [];
+const sentTexts = new Map<string, string>();
+
+const PATTERNS: { kind: RedactionKind; pattern: RegExp }[] = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    kind: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][\w'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq)\b\.?/g,
+  },
+  { kind: 'phone', pattern: /(?<![\w-])\+?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}(?![\w-])/g },
+  { kind: 'name', pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+[A-Z][\w'-]+(?:\s+[A-Z][\w'-]+)?/g },
+];
+
+/**
+ * Applies the privacy settings to every later AI request. `names` are the
+ * people named in the diary, which redaction masks wherever they appear.
+ */
+export function configurePrivacy(settings: PrivacySettings, names: string[]) {
+  privacy = settings;
+  // Longest first, so "Anna Lee" is masked whole before "Anna"
+  knownNames = [...new Set(names.map(n => n.trim()).filter(n => n.length > 1))].sort((a, b) => b.length - a.length);
+}
+
+export function isAIEnabled(): boolean {
+  return privacy.aiEnabled;
+}
+
+export const PRIVATE_ENTRY_MESSAGE = "This entry is private, so it is never sent to the AI.";
+
+export function canSendToAI(entry: Pick<DiaryEntry, 'isPrivate'>): boolean {
+  return !entry.isPrivate;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Dates such as 2025-03-14 and runs of years such as "2024 2025" look like
+// phone numbers but are needed for context
+function isPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  return digits >= 7 && digits <= 15
+    && !/^\d{4}-\d{2}-\d{2}$/.test(match)
+    && !/^(?:19|20)\d{2}(?:[\s.-]+(?:19|20)\d{2})+$/.test(match);
+}
+
+/**
+ * Masks personal details with numbered placeholders such as "[name 1]". The
+ * same value gets the same placeholder in every text of one request, so the
+ * reply can be mapped back with `restoreRedacted`.
+ */
+export function redact(texts: string[]): Redaction {
+  const placeholders = new Map<string, string>();
+  if (!privacy.redact) return { texts, count: 0, placeholders };
+
+  const byValue = new Map<string, string>();
+  const counters: Record<RedactionKind, number> = { name: 0, email: 0, phone: 0, address: 0 };
+  let count = 0;
+  const mask = (kind: RedactionKind, value: string) => {
+    const key = `${kind}:${value.toLowerCase()}`;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      placeholder = `[${kind} ${++counters[kind]}]`;
+      byValue.set(key, placeholder);
+      placeholders.set(placeholder, value);
+    }
+    count++;
+    return placeholder;
+  };
+
+  const namePattern = knownNames.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${knownNames.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    : null;
+
+  const masked = texts.map(text => {
+    let result = text;
+    for (const { kind, pattern } of PATTERNS) {
+      result = result.replace(pattern, match => kind === 'phone' && !isPhoneNumber(match) ? match : mask(kind, match));
+    }
+    if (namePattern) result = result.replace(namePattern, match => mask('name', match));
+    return result;
+  });
+  return { texts: masked, count, placeholders };
+}
+
+// Puts the original details back into a reply, including inside structured replies
+export function restoreRedacted<T>(value: T, redaction: Redaction): T {
+  if (redaction.placeholders.size === 0) return value;
+  if (typeof value === 'string') {
+    return value.replace(/\[(?:name|email|phone|address) \d+\]/g, p => redaction.placeholders.get(p) ?? p) as T;
+  }
+  if (Array.isArray(value)) return value.map(v => restoreRedacted(v, redaction)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Blob)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreRedacted(v, redaction)])) as T;
+  }
+  return value;
+}
+
+function readLog(): AILogEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordAIRequest(operation: string, provider: string, texts: string[], redactions: number, attachment?: string) {
+  const id = crypto.randomUUID();
+  const entry: AILogEntry = {
+    id,
+    sentAt: new Date().toISOString(),
+    operation,
+    provider,
+    characters: texts.reduce((sum, t) => sum + t.length, 0),
+    redactions,
+    attachment,
+  };
+  sentTexts.set(id, texts.join('\n\n---\n\n'));
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify([entry, ...readLog()].slice(0, MAX_LOG_ENTRIES)));
+  } catch (e) {
+    console.error("Failed to write the AI log", e);
+  }
+}
+
+// Newest first
+export function loadAILog(): AILogEntry[] {
+  return readLog().map(entry => ({ ...entry, text: sentTexts.get(entry.id) }));
+}
+
+export function clearAILog() {
+  localStorage.removeItem(LOG_KEY);
+  sentTexts.clear();
+}
+
+/**
+ * Drops the sent texts held in memory, e.g. on lock. The log itself is kept.
+ */
+export function forgetSentTexts() {
+  sentTexts.clear();
+}
@@ -0,0 +1,107 @@
+import { ChatTurn, PromptStyle } from './aiProvider';
+
+/**
+ * Prompt text shared by every AI provider, so switching backends keeps the
+ * voice of reflections and images consistent.
+ */
+
+/**
+ * Fills `{date}` and `{content}` in a user's template in one pass, so text
+ * that happens to contain a placeholder is left alone. A template without
+ * `{content}` gets the content appended instead of silently dropping it.
+ */
+export function fillTemplate(template: string, values: { date: string; content: string }, contentLabel: string): string {
+  const filled = template.replace(/\{(date|content)\}/g, (_, key: 'date' | 'content') => values[key]);
+  return template.includes('{content}') ? filled : `${filled}\n\n${contentLabel}: "${values.content}"`;
+}
+
+export function reflectionPrompt(content: string, date: string, style: PromptStyle): string {
+  const prompt = fillTemplate(style.template, { date, content }, `Journal entry from ${date}`);
+  return style.language ? `${prompt}\n\nWrite your reply in ${style.language}.` : prompt;
+}
+
+export function visualPromptRequest(content: string): string {
+  return `Describe in a short image generation prompt (max 30 words) a scene that captures the mood and essence of this diary entry: "${content}". Describe only the subject and mood, not an art style.`;
+}
+
+export function imagePrompt(visualPrompt: string, date: string, style: PromptStyle): string {
+  return fillTemplate(style.template, { date, content: visualPrompt }, "Subject");
+}
+
+export function summaryPrompt(entries: string[], period = 'this period'): string {
+  return `Summarize the following collection of diary entries from ${period} into a cohesive story of a journey. Focus on themes, growth, and emotions: \n\n ${entries.join("\n\n")}`;
+}
+
+export function relatedEntriesPrompt(content: string, candidates: string[]): string {
+  const list = candidates.map((text, idx) => `${idx + 1}. ${text}`).join("\n");
+  return `Here is a diary entry: "${content}"\n\nWhich of these other entries are about the same people, events, or ongoing situation?\n${list}\n\nReply with only the numbers of the related entries, separated by commas, or "none".`;
+}
+
+// Reads the numbers out of a reply to relatedEntriesPrompt as zero-based indexes
+export function parseRelatedEntries(reply: string, count: number): number[] {
+  const numbers = (reply.match(/\d+/g) || []).map(Number);
+  return [...new Set(numbers)].filter(n => n >= 1 && n <= count).map(n => n - 1);
+}
+
+export function combineSummariesPrompt(summaries: string[], period: string): string {
+  return `Here are summaries of consecutive stretches of a diary covering ${period}, in order. Weave them into one cohesive story of the whole period, keeping the themes, turning points, growth, and emotions. Do not list them one by one: \n\n ${summaries.join("\n\n")}`;
+}
+
+export function transcriptionPrompt(): string {
+  return `Transcribe this voice note from a personal diary word for word, in the language it is spoken in. Add punctuation and paragraph breaks, but do not summarize, translate, or add anything. Reply with only the transcript.`;
+}
+
+export function askDiaryPrompt(question: string, excerpts: string[], history: ChatTurn[]): string {
+  const sources = excerpts.map((text, idx) => `[${idx + 1}] ${text}`).join("\n\n");
+  const conversation = history.length > 0
+    ? `Conversation so far:\n${history.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join("\n")}\n\n`
+    : '';
+  return `You help someone explore their own diary. Answer their question using only the numbered diary excerpts below, each of which starts with the date it was written. Cite every excerpt you rely on with its number in square brackets, like [2]. If the excerpts do not answer the question, say so plainly instead of guessing. Speak to the writer as "you" and keep the answer short and warm.\n\nExcerpts:\n${sources}\n\n${conversation}Question: ${question}`;
+}
+
+// The subset of JSON Schema used to ask providers for structured replies
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * JSON Schema of the reply to enrichmentPrompt. `mood` is one of the app's
+ * moods, or "none" when no single mood fits.
+ */
+export function enrichmentSchema(moods: string[]): JsonSchema {
+  const names: JsonSchema = { type: 'array', items: { type: 'string' } };
+  return {
+    type: 'object',
+    properties: {
+      mood: { type: 'string', enum: [...moods, 'none'] },
+      tags: names,
+      people: names,
+      places: names,
+      events: names,
+    },
+    required: ['mood', 'tags', 'people', 'places', 'events'],
+    additionalProperties: false,
+  };
+}
+
+export function enrichmentPrompt(content: string, moods: string[], knownTags: string[]): string {
+  const tags = knownTags.length > 0 ? ` Prefer tags the writer already uses where they fit: ${knownTags.slice(0, 40).join(', ')}.` : '';
+  return `Read this diary entry and describe it as JSON. "mood": the writer's overall mood, one of ${moods.join(', ')}, or "none". "tags": up to 5 short lowercase topic tags.${tags} "people": names of people mentioned, as written. "places": named places. "events": named or notable events, such as "Anna's wedding" or "job interview". Use empty lists when nothing fits and never invent names.\n\nEntry: "${content}"`;
+}
+
+// Models sometimes wrap JSON in prose or code fences despite being asked not to
+export function parseJsonReply(reply: string): unknown {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+  try {
+    return JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+import { addDays, eachDayOfInterval, endOfWeek, format, isLeapYear, isValid, startOfWeek, subDays } from 'date-fns';
+import { DiaryEntry } from '../types';
+import { AIResult, generateEntryReflection } from './aiService';
+import { entrySnippet } from './linkService';
+import { canSendToAI, PRIVATE_ENTRY_MESSAGE } from './privacyService';
+import { getActiveTemplate } from './templateService';
+
+/**
+ * Brings old entries back: "On this day" and a weekly digest of the same week
+ * in earlier years.
+ */
+
+// Dismissing and snoozing are display preferences, so they live in localStorage like settings
+const DIGEST_KEY = 'lifeThreads_digest';
+const DIGEST_LIMIT = 6;
+const RECENT_DAYS = 30;
+const RECENT_LIMIT = 5;
+
+export interface DigestState {
+  dismissedWeek?: string; // ISO week key, e.g. "2025-W07"
+  snoozedUntil?: string; // ISO string
+}
+
+export interface WeeklyDigest {
+  weekKey: string;
+  entries: DiaryEntry[]; // newest year first
+}
+
+// "MM-dd" of an entry, with Feb 29 shown on Feb 28 in years that lack it
+function calendarKey(date: Date, year: number): string {
+  const key = format(date, 'MM-dd');
+  return key === '02-29' && !isLeapYear(new Date(year, 0, 1)) ? '02-28' : key;
+}
+
+function pastEntriesOn(entries: DiaryEntry[], today: Date, matches: (key: string) => boolean): DiaryEntry[] {
+  const year = today.getFullYear();
+  return entries
+    .filter(entry => {
+      const d = new Date(entry.date);
+      return isValid(d) && d.getFullYear() < year && matches(calendarKey(d, year));
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Entries written on today's calendar date in earlier years, newest first.
+ */
+export function onThisDay(entries: DiaryEntry[], today = new Date()): DiaryEntry[] {
+  const key = format(today, 'MM-dd');
+  return pastEntriesOn(entries, today, k => k === key);
+}
+
+export function weekKeyOf(date: Date): string {
+  return format(date, "RRRR-'W'II");
+}
+
+/**
+ * A handful of entries from this week (Monday to Sunday) in earlier years,
+ * at most two per year and leaving out today's date, which "On this day"
+ * already shows.
+ */
+export function weeklyDigest(entries: DiaryEntry[], today = new Date()): WeeklyDigest {
+  const todayKey = format(today, 'MM-dd');
+  const week = new Set(
+    eachDayOfInterval({ start: startOfWeek(today, { weekStartsOn: 1 }), end: endOfWeek(today, { weekStartsOn: 1 }) })
+      .map(d => format(d, 'MM-dd'))
+      .filter(k => k !== todayKey)
+  );
+
+  const perYear = new Map<number, number>();
+  const picked: DiaryEntry[] = [];
+  for (const entry of pastEntriesOn(entries, today, k => week.has(k))) {
+    const year = new Date(entry.date).getFullYear();
+    const count = perYear.get(year) || 0;
+    if (count >= 2) continue;
+    perYear.set(year, count + 1);
+    picked.push(entry);
+    if (picked.length >= DIGEST_LIMIT) break;
+  }
+  return { weekKey: weekKeyOf(today), entries: picked };
+}
+
+export function loadDigestState(): DigestState {
+  try {
+    const saved = localStorage.getItem(DIGEST_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error("Failed to load digest state", e);
+    return {};
+  }
+}
+
+export function saveDigestState(state: DigestState) {
+  try {
+    localStorage.setItem(DIGEST_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save digest state", e);
+  }
+}
+
+export function isDigestHidden(state: DigestState, weekKey: string, now = new Date()): boolean {
+  if (state.dismissedWeek === weekKey) return true;
+  return !!state.snoozedUntil && new Date(state.snoozedUntil).getTime() > now.getTime();
+}
+
+export function snoozeDigest(state: DigestState, days: number, now = new Date()): DigestState {
+  return { ...state, snoozedUntil: addDays(now, days).toISOString() };
+}
+
+/**
+ * A reflection comparing an old entry with what has been written lately.
+ * Goes through the regular entry reflection, in the chosen persona, with both
+ * periods as its text.
+ */
+export async function generateThenVsNow(then: DiaryEntry, entries: DiaryEntry[], today = new Date()): Promise<AIResult<string>> {
+  if (!canSendToAI(then)) return { status: 'disabled', message: PRIVATE_ENTRY_MESSAGE };
+  const since = subDays(today, RECENT_DAYS).toISOString();
+  const recent = entries
+    .filter(e => e.id !== then.id && canSendToAI(e) && e.date >= since && e.date <= today.toISOString())
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_LIMIT);
+
+  const thenDate = format(new Date(then.date), 'MMMM d, yyyy');
+  const now = recent.length > 0
+    ? recent.map(e => `(${format(new Date(e.date), 'MMM d')}) ${entrySnippet(e)}`).join('\n')
+    : "Nothing written in the last month.";
+  const text = `Then, on ${thenDate}:\n${then.content}\n\nNow, in recent entries:\n${now}\n\nCompare then and now: what has changed, and what has stayed the same?`;
+  return generateEntryReflection(text, `${thenDate}, read again on ${format(today, 'MMMM d, yyyy')}`, getActiveTemplate('reflection'));
+}
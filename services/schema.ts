@@ -0,0 +1,176 @@
+/**
+ * Versioning for persisted DiaryEntry data.
+ *
+ * Every record written to storage (or into an export archive) is wrapped in an
+ * envelope carrying the schema version it was written with. On read, records
+ * are walked through the ordered migration list up to CURRENT_SCHEMA_VERSION and
+ * then validated. A new optional field needs no bump: older records simply
+ * lack it, so only `validateEntry` has to learn about it. Bump the version and
+ * append a migration when a field is renamed, changes shape or becomes
+ * required, so older records are rewritten to match.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export interface SchemaEnvelope<T = unknown> {
+  id: string;
+  schemaVersion: number;
+  data: T;
+}
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Ordered list; each step lifts a record from `from` to `from + 1`
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: "Unversioned localStorage/IndexedDB records: default missing images, split comma-separated tags",
+    // Anything else is left as found, so validation still rejects a corrupted record
+    migrate: (data) => ({
+      ...data,
+      images: data.images === undefined ? [] : data.images,
+      tags: typeof data.tags === 'string'
+        ? data.tags.split(',').map(t => t.trim()).filter(Boolean)
+        : data.tags,
+    }),
+  },
+];
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+function idOf(value: unknown): string | undefined {
+  return typeof value === 'object' && value !== null && 'id' in value && typeof value.id === 'string' ? value.id : undefined;
+}
+
+/**
+ * Accepts either a proper envelope or a bare record from before versioning
+ * existed, and returns an envelope in both cases.
+ */
+export function toEnvelope(raw: unknown): SchemaEnvelope {
+  if (raw && typeof raw === 'object' && 'schemaVersion' in raw && 'data' in raw) {
+    const envelope = raw as SchemaEnvelope;
+    return { ...envelope, id: idOf(envelope) ?? idOf(envelope.data) ?? '' };
+  }
+  return { id: idOf(raw) ?? '', schemaVersion: 0, data: raw };
+}
+
+export function wrap<T extends { id: string }>(data: T): SchemaEnvelope<T> {
+  return { id: data.id, schemaVersion: CURRENT_SCHEMA_VERSION, data };
+}
+
+/**
+ * Runs all pending migrations on an envelope. Throws a SchemaError when the
+ * record was written by a newer version of the app or a step is missing.
+ */
+export function migrate(envelope: SchemaEnvelope): SchemaEnvelope {
+  let { schemaVersion, data } = envelope;
+
+  if (typeof schemaVersion !== 'number' || schemaVersion < 0) {
+    throw new SchemaError(`Invalid schema version "${schemaVersion}"`);
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaError(`Record uses schema v${schemaVersion}, newer than supported v${CURRENT_SCHEMA_VERSION}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new SchemaError("Record payload is not an object");
+  }
+
+  while (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === schemaVersion);
+    if (!step) throw new SchemaError(`No migration from schema v${schemaVersion}`);
+    data = step.migrate(data as Record<string, unknown>);
+    schemaVersion++;
+  }
+
+  return { ...envelope, schemaVersion, data };
+}
+
+// `value` is only set when `errors` is empty
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isVoiceNoteList = (v: unknown): boolean => Array.isArray(v)
+  && v.every(note => !!note && typeof note === 'object' && isString(note.id) && isString(note.url) && isString(note.recordedAt));
+const isDateString = (v: unknown): v is string => isString(v) && !isNaN(new Date(v).getTime());
+const isPhotoInfoList = (v: unknown): boolean => Array.isArray(v)
+  && v.every(info => info === null || (typeof info === 'object' && typeof info.width === 'number' && typeof info.height === 'number'
+    && (info.takenAt === undefined || isDateString(info.takenAt))));
+const isCoordinate = (v: unknown, limit: number) => v === undefined || (typeof v === 'number' && Math.abs(v) <= limit);
+const isLocation = (v: unknown): boolean => {
+  if (!v || typeof v !== 'object') return false;
+  const loc = v as Record<string, unknown>;
+  return (loc.name === undefined || isString(loc.name))
+    && isCoordinate(loc.latitude, 90) && isCoordinate(loc.longitude, 180)
+    && (loc.latitude === undefined) === (loc.longitude === undefined)
+    && (loc.name !== undefined || loc.latitude !== undefined);
+};
+const isTemplateRef = (v: unknown): boolean => !!v && typeof v === 'object'
+  && isString((v as Record<string, unknown>).id) && isString((v as Record<string, unknown>).name);
+const isEnrichment = (v: unknown): boolean => {
+  if (!v || typeof v !== 'object') return false;
+  const s = v as Record<string, unknown>;
+  return (s.mood === undefined || isString(s.mood))
+    && isStringArray(s.tags) && isStringArray(s.people) && isStringArray(s.places) && isStringArray(s.events)
+    && isString(s.analyzedAt) && isString(s.contentHash);
+};
+
+/**
+ * Structural check for a DiaryEntry-shaped record (image fields may hold
+ * either URLs or storage ids, both are strings).
+ */
+export function validateEntry<T>(data: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object') {
+    return { value: null, errors: ["Entry is not an object"] };
+  }
+  const e = data as Record<string, unknown>;
+
+  if (!isString(e.id) || !e.id) errors.push("Missing id");
+  if (!isString(e.content)) errors.push("Content must be text");
+  if (!isString(e.date) || isNaN(new Date(e.date).getTime())) errors.push("Date is missing or invalid");
+  if (!isStringArray(e.images)) errors.push("Images must be a list");
+  if (e.mood !== undefined && !isString(e.mood)) errors.push("Mood must be text");
+  if (e.tags !== undefined && !isStringArray(e.tags)) errors.push("Tags must be a list of text");
+  if (e.aiReflection !== undefined && !isString(e.aiReflection)) errors.push("AI reflection must be text");
+  if (e.aiImage !== undefined && !isString(e.aiImage)) errors.push("AI image must be a reference");
+  if (e.aiReflectionTemplate !== undefined && !isTemplateRef(e.aiReflectionTemplate)) errors.push("Reflection template must name a template");
+  if (e.aiImageTemplate !== undefined && !isTemplateRef(e.aiImageTemplate)) errors.push("Image template must name a template");
+  if (e.links !== undefined && !isStringArray(e.links)) errors.push("Links must be a list of entry ids");
+  if (e.threads !== undefined && !isStringArray(e.threads)) errors.push("Threads must be a list of names");
+  if (e.voiceNotes !== undefined && !isVoiceNoteList(e.voiceNotes)) errors.push("Voice notes must be a list of recordings");
+  if (e.photoInfo !== undefined && !isPhotoInfoList(e.photoInfo)) errors.push("Photo details must be a list");
+  if (e.location !== undefined && !isLocation(e.location)) errors.push("Location needs a place name or valid coordinates");
+  if (e.people !== undefined && !isStringArray(e.people)) errors.push("People must be a list of names");
+  if (e.places !== undefined && !isStringArray(e.places)) errors.push("Places must be a list of names");
+  if (e.events !== undefined && !isStringArray(e.events)) errors.push("Events must be a list of names");
+  if (e.enrichment !== undefined && !isEnrichment(e.enrichment)) errors.push("AI suggestions are malformed");
+  if (e.isPrivate !== undefined && typeof e.isPrivate !== 'boolean') errors.push("Private flag must be true or false");
+  if (e.deletedAt !== undefined && (!isString(e.deletedAt) || isNaN(new Date(e.deletedAt).getTime()))) errors.push("Deletion date is invalid");
+
+  return { value: errors.length > 0 ? null : data as T, errors };
+}
+
+/**
+ * Migrates and validates in one step, never throwing.
+ */
+export function readEnvelope<T>(raw: unknown): ValidationResult<T> {
+  try {
+    const migrated = migrate(toEnvelope(raw));
+    return validateEntry<T>(migrated.data);
+  } catch (e: any) {
+    return { value: null, errors: [e instanceof SchemaError ? e.message : "Unreadable record"] };
+  }
+}
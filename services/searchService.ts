@@ -0,0 +1,262 @@
+import { format, isValid } from 'date-fns';
+import { DiaryEntry } from '../types';
+import { getMood, normalizeTag } from '../constants';
+import { toPlainText } from './markdownService';
+
+/**
+ * Local full-text search over the diary.
+ *
+ * Query syntax:
+ *   words            every word must match (prefixes count, exact words rank higher)
+ *   "a phrase"       exact phrase in the text or reflection
+ *   tag:travel       entry has the tag
+ *   mood:calm        entry has the mood
+ *   thread:"a name"  entry belongs to the thread
+ *   person:"a name"  entry mentions the person
+ *   weekday:mon      entry was written on that day of the week (or "monday")
+ *   after:2024-03    entry is after the end of the given year / month / day
+ *   before:2025      entry is before the start of the given year / month / day
+ *   has:photo        also has:reflection, has:ai-image, has:place, has:private
+ *   -anything        negates a word, phrase or filter
+ */
+
+type Field = 'content' | 'reflection' | 'tags' | 'mood' | 'place' | 'people' | 'date';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  tags: 3,
+  mood: 2,
+  place: 2,
+  people: 2,
+  date: 1.5,
+  content: 1,
+  reflection: 0.5,
+};
+
+const PREFIX_FACTOR = 0.5;
+const PHRASE_BONUS = 4;
+
+interface Term {
+  value: string;
+  negated: boolean;
+}
+
+interface Filter {
+  key: 'tag' | 'mood' | 'thread' | 'person' | 'weekday' | 'before' | 'after' | 'has';
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  words: Term[];
+  phrases: Term[];
+  filters: Filter[];
+}
+
+export interface SearchIndex {
+  // token -> entry id -> weighted occurrence count
+  postings: Map<string, Map<string, number>>;
+  tokens: string[]; // sorted, for prefix lookups
+  texts: Map<string, string>; // normalized searchable text per entry, for phrases
+  entries: Map<string, DiaryEntry>;
+}
+
+export interface SearchResult {
+  entry: DiaryEntry;
+  score: number;
+}
+
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text).match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function dateText(iso: string): string {
+  const d = new Date(iso);
+  if (!isValid(d)) return '';
+  // Spelled-out forms so "March 2025" or "sunday" find entries by date
+  return [format(d, 'yyyy-MM-dd'), format(d, 'MMMM yyyy'), format(d, 'MMM'), format(d, 'EEEE'), format(d, 'do')].join(' ');
+}
+
+function fieldsOf(entry: DiaryEntry): Record<Field, string> {
+  return {
+    content: toPlainText(entry.content),
+    reflection: entry.aiReflection || '',
+    tags: (entry.tags || []).join(' '),
+    mood: entry.mood ? `${entry.mood} ${getMood(entry.mood).label}` : '',
+    place: [entry.location?.name, ...(entry.places || [])].filter(Boolean).join(' '),
+    people: [...(entry.people || []), ...(entry.events || [])].join(' '),
+    date: dateText(entry.date),
+  };
+}
+
+export function buildSearchIndex(entries: DiaryEntry[]): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  const texts = new Map<string, string>();
+
+  for (const entry of entries) {
+    const fields = fieldsOf(entry);
+    for (const field of Object.keys(fields) as Field[]) {
+      for (const token of tokenize(fields[field])) {
+        let posting = postings.get(token);
+        if (!posting) postings.set(token, posting = new Map());
+        posting.set(entry.id, (posting.get(entry.id) || 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    texts.set(entry.id, tokenize(`${fields.content} ${fields.reflection}`).join(' '));
+  }
+
+  return {
+    postings,
+    tokens: [...postings.keys()].sort(),
+    texts,
+    entries: new Map(entries.map(e => [e.id, e])),
+  };
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { words: [], phrases: [], filters: [] };
+  const pattern = /(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, minus, key, quoted, bare] = match;
+    const negated = minus === '-';
+    const value = quoted ?? bare ?? '';
+    const filterKey = key?.toLowerCase();
+
+    if (filterKey && ['tag', 'mood', 'thread', 'person', 'weekday', 'before', 'after', 'has'].includes(filterKey)) {
+      if (value) parsed.filters.push({ key: filterKey as Filter['key'], value: value.toLowerCase(), negated });
+    } else if (quoted !== undefined) {
+      const phrase = tokenize(key ? `${key} ${quoted}` : quoted).join(' ');
+      if (phrase) parsed.phrases.push({ value: phrase, negated });
+    } else {
+      // "key:value" that isn't a known filter is treated as plain words
+      tokenize(key ? `${key} ${value}` : value).forEach(word => parsed.words.push({ value: word, negated }));
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Turns "2025", "2025-03" or "2025-03-14" into the [start, end) range it covers.
+ */
+function parseDateRange(value: string): [number, number] | null {
+  const m = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!m) return null;
+  const year = Number(m[1]);
+  if (m[3]) {
+    const start = new Date(year, Number(m[2]) - 1, Number(m[3]));
+    return [start.getTime(), new Date(year, Number(m[2]) - 1, Number(m[3]) + 1).getTime()];
+  }
+  if (m[2]) {
+    return [new Date(year, Number(m[2]) - 1, 1).getTime(), new Date(year, Number(m[2]), 1).getTime()];
+  }
+  return [new Date(year, 0, 1).getTime(), new Date(year + 1, 0, 1).getTime()];
+}
+
+function matchesFilter(entry: DiaryEntry, filter: Filter): boolean {
+  switch (filter.key) {
+    case 'tag':
+      return (entry.tags || []).includes(normalizeTag(filter.value));
+    case 'mood':
+      return !!entry.mood && (entry.mood === filter.value || getMood(entry.mood).label.toLowerCase() === filter.value);
+    case 'thread':
+      return (entry.threads || []).some(name => normalizeText(name) === normalizeText(filter.value));
+    case 'person':
+      return (entry.people || []).some(name => normalizeText(name) === normalizeText(filter.value));
+    case 'weekday': {
+      const d = new Date(entry.date);
+      if (!isValid(d)) return false;
+      const day = format(d, 'EEEE').toLowerCase();
+      return day === filter.value || day.slice(0, 3) === filter.value;
+    }
+    case 'before':
+    case 'after': {
+      const range = parseDateRange(filter.value);
+      const time = new Date(entry.date).getTime();
+      if (!range || isNaN(time)) return false;
+      return filter.key === 'before' ? time < range[0] : time >= range[1];
+    }
+    case 'has':
+      if (filter.value === 'photo' || filter.value === 'photos') return (entry.images || []).length > 0;
+      if (filter.value === 'reflection') return !!entry.aiReflection;
+      if (filter.value === 'ai-image' || filter.value === 'aiimage') return !!entry.aiImage;
+      if (filter.value === 'place' || filter.value === 'location') return !!entry.location;
+      if (filter.value === 'private') return !!entry.isPrivate;
+      return false;
+  }
+}
+
+// Score of one word for every entry it occurs in, counting prefix matches at a discount
+function scoreWord(index: SearchIndex, word: string): Map<string, number> {
+  const scores = new Map<string, number>();
+  let lo = 0;
+  let hi = index.tokens.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.tokens[mid] < word) lo = mid + 1;
+    else hi = mid;
+  }
+  for (let i = lo; i < index.tokens.length && index.tokens[i].startsWith(word); i++) {
+    const token = index.tokens[i];
+    const factor = token === word ? 1 : PREFIX_FACTOR;
+    index.postings.get(token)!.forEach((weight, id) => {
+      scores.set(id, (scores.get(id) || 0) + weight * factor);
+    });
+  }
+  return scores;
+}
+
+function containsPhrase(index: SearchIndex, id: string, phrase: string): boolean {
+  return ` ${index.texts.get(id) || ''} `.includes(` ${phrase} `);
+}
+
+/**
+ * Runs a query against the index. Results are ranked by score, newest first
+ * on ties; a query made only of filters simply returns matches newest first.
+ */
+export function searchEntries(index: SearchIndex, query: string): SearchResult[] {
+  const parsed = parseQuery(query);
+  const results: SearchResult[] = [];
+  const positiveWords = parsed.words.filter(w => !w.negated);
+  const wordScores = new Map(parsed.words.map(w => [w.value, scoreWord(index, w.value)]));
+
+  index.entries.forEach((entry, id) => {
+    let score = 0;
+
+    for (const word of parsed.words) {
+      const wordScore = wordScores.get(word.value)!.get(id) || 0;
+      if (word.negated ? wordScore > 0 : wordScore === 0) return;
+      score += wordScore;
+    }
+    for (const phrase of parsed.phrases) {
+      const found = containsPhrase(index, id, phrase.value);
+      if (found === phrase.negated) return;
+      if (found) score += PHRASE_BONUS;
+    }
+    for (const filter of parsed.filters) {
+      if (matchesFilter(entry, filter) === filter.negated) return;
+    }
+
+    results.push({ entry, score: positiveWords.length > 0 || parsed.phrases.length > 0 ? score : 0 });
+  });
+
+  return results.sort((a, b) =>
+    b.score - a.score || new Date(b.entry.date).getTime() - new Date(a.entry.date).getTime()
+  );
+}
+
+/**
+ * Words and phrases worth highlighting in results (negated parts excluded).
+ */
+export function getHighlightTerms(query: string): string[] {
+  const parsed = parseQuery(query);
+  return [
+    ...parsed.phrases.filter(p => !p.negated).map(p => p.value),
+    ...parsed.words.filter(w => !w.negated).map(w => w.value),
+  ];
+}
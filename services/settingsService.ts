@@ -0,0 +1,75 @@
+import { AppSettings } from '../types';
+import { DEFAULT_PROMPT_SETTINGS, withBuiltInTemplates } from './templateService';
+
+// Preferences are small and non-sensitive, so they live in localStorage
+const SETTINGS_KEY = 'lifeThreads_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoLockMinutes: 5,
+  timelineView: 'list',
+  trashRetentionDays: 30,
+  revisions: {
+    maxPerEntry: 20,
+    maxAgeDays: 365,
+  },
+  images: {
+    format: 'jpeg',
+    maxDimension: 1000,
+    quality: 0.7,
+  },
+  location: {
+    geocoder: 'offline',
+    mapTiles: false,
+  },
+  enrichment: {
+    analyzeOnSave: true,
+    requestsPerMinute: 10,
+  },
+  privacy: {
+    aiEnabled: true,
+    redact: false,
+  },
+  prompts: DEFAULT_PROMPT_SETTINGS,
+  ai: {
+    kind: 'gemini',
+    geminiTextModel: 'gemini-3-flash-preview',
+    geminiImageModel: 'gemini-2.5-flash-image',
+    openAIBaseUrl: 'http://localhost:11434/v1',
+    openAIApiKey: '',
+    openAIModel: 'llama3.1',
+    openAIImageModel: '',
+    openAIAudioModel: '',
+  },
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved);
+    // Merge over defaults so settings added later get sensible values
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_SETTINGS;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      ai: { ...DEFAULT_SETTINGS.ai, ...parsed.ai },
+      revisions: { ...DEFAULT_SETTINGS.revisions, ...parsed.revisions },
+      images: { ...DEFAULT_SETTINGS.images, ...parsed.images },
+      location: { ...DEFAULT_SETTINGS.location, ...parsed.location },
+      enrichment: { ...DEFAULT_SETTINGS.enrichment, ...parsed.enrichment },
+      privacy: { ...DEFAULT_SETTINGS.privacy, ...parsed.privacy },
+      prompts: { ...DEFAULT_SETTINGS.prompts, ...parsed.prompts, templates: withBuiltInTemplates(parsed.prompts?.templates) },
+    };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+}
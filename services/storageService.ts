@@ -0,0 +1,557 @@
+import { DiaryEntry, EntryRevision, QuarantinedRecord, RevisionPolicy } from '../types';
+import { STORES, ImageRecord, openDatabase, transactionDone, getAllRecords, getRecord, deleteRecord } from './db';
+import { CURRENT_SCHEMA_VERSION, SchemaEnvelope, readEnvelope, toEnvelope, wrap } from './schema';
+import { blobRecordInfo, openImage, openRecord, sealImage, sealRecord } from './vaultService';
+
+const LEGACY_STORAGE_KEY = 'lifeThreads_entries';
+
+/**
+ * Shape of an entry as it sits in IndexedDB: identical to DiaryEntry except
+ * that photos, the AI image and voice note audio are references into the
+ * `images` store, which holds every blob.
+ */
+interface StoredEntry extends Omit<DiaryEntry, 'images' | 'aiImage'> {
+  images: string[]; // image record ids
+  aiImage?: string; // image record id
+  // voiceNotes[].url holds an image record id as well
+}
+
+/**
+ * A saved version of an entry. The snapshot keeps image references, so images
+ * stay in the store for as long as any revision still points at them.
+ */
+interface StoredRevision {
+  id: string;
+  entryId: string;
+  savedAt: string; // ISO string
+  entry: SchemaEnvelope<StoredEntry>;
+}
+
+// What sync needs to know about a revision without decrypting it again
+interface RevisionRef {
+  id: string;
+  savedAt: string;
+  imageIds: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bidirectional map between displayable URLs handed to the UI and image record ids
+const urlToImageId = new Map<string, string>();
+const imageIdToUrl = new Map<string, string>();
+
+// Last version of every entry known to be on disk, used to diff on sync
+let persisted = new Map<string, DiaryEntry>();
+
+// Revisions per entry id, oldest first
+let revisionIndex = new Map<string, RevisionRef[]>();
+
+// Entries saved by the user since the last sync; only these get a new revision
+const pendingRevisions = new Set<string>();
+
+let revisionPolicy: RevisionPolicy = { maxPerEntry: 20, maxAgeDays: 365 };
+
+// Writes are serialized so overlapping syncs never interleave
+let writeQueue: Promise<void> = Promise.resolve();
+
+function registerImage(id: string, url: string) {
+  urlToImageId.set(url, id);
+  imageIdToUrl.set(id, url);
+}
+
+function forgetImage(id: string) {
+  const url = imageIdToUrl.get(id);
+  if (url) {
+    urlToImageId.delete(url);
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+  imageIdToUrl.delete(id);
+}
+
+async function urlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  return response.blob();
+}
+
+interface PreparedEntry {
+  record: StoredEntry;
+  newImages: ImageRecord[];
+  // url -> record id of each new image, registered once the write has committed
+  newUrls: Map<string, string>;
+}
+
+/**
+ * Converts an in-memory entry into its stored form. Any image that is not yet
+ * in the images store is returned in `newImages` so the caller can write it in
+ * the same transaction as the entry.
+ */
+async function toStoredEntry(entry: DiaryEntry): Promise<PreparedEntry> {
+  const newImages: ImageRecord[] = [];
+  const newUrls = new Map<string, string>();
+
+  const resolveImage = async (url: string): Promise<string> => {
+    const known = urlToImageId.get(url) || newUrls.get(url);
+    if (known) return known;
+    const id = crypto.randomUUID();
+    newUrls.set(url, id);
+    newImages.push({ id, blob: await urlToBlob(url) });
+    return id;
+  };
+
+  const images: string[] = [];
+  for (const url of entry.images || []) {
+    images.push(await resolveImage(url));
+  }
+  const aiImage = entry.aiImage ? await resolveImage(entry.aiImage) : undefined;
+  const voiceNotes = entry.voiceNotes
+    ? await Promise.all(entry.voiceNotes.map(async note => ({ ...note, url: await resolveImage(note.url) })))
+    : undefined;
+
+  return { record: { ...entry, images, aiImage, voiceNotes }, newImages, newUrls };
+}
+
+// Every blob reference of an entry, in either form
+function blobRefs(entry: DiaryEntry | StoredEntry): string[] {
+  const refs = [...(entry.images || [])];
+  if (entry.aiImage) refs.push(entry.aiImage);
+  entry.voiceNotes?.forEach(note => refs.push(note.url));
+  return refs;
+}
+
+function imageIdsOf(entry: DiaryEntry): string[] {
+  return blobRefs(entry).map(url => urlToImageId.get(url)).filter((id): id is string => !!id);
+}
+
+
+function toRevision(record: StoredEntry, savedAt: string): StoredRevision {
+  return { id: crypto.randomUUID(), entryId: record.id, savedAt, entry: wrap(record) };
+}
+
+function toRevisionRef(revision: StoredRevision): RevisionRef {
+  return { id: revision.id, savedAt: revision.savedAt, imageIds: blobRefs(revision.entry.data) };
+}
+
+/**
+ * Revisions of one entry that fall outside the policy. The newest revision is
+ * always kept, since it mirrors the entry as it is now.
+ */
+function prunable(refs: RevisionRef[], now: number): RevisionRef[] {
+  const older = refs.slice(0, -1);
+  return older.filter((ref, idx) => {
+    const tooMany = revisionPolicy.maxPerEntry > 0 && refs.length - idx > revisionPolicy.maxPerEntry;
+    const tooOld = revisionPolicy.maxAgeDays > 0 && now - new Date(ref.savedAt).getTime() > revisionPolicy.maxAgeDays * DAY_MS;
+    return tooMany || tooOld;
+  });
+}
+
+function allRevisionImageIds(index: Map<string, RevisionRef[]>): Set<string> {
+  const ids = new Set<string>();
+  index.forEach(refs => refs.forEach(ref => ref.imageIds.forEach(id => ids.add(id))));
+  return ids;
+}
+
+export interface LoadResult {
+  entries: DiaryEntry[];
+  quarantined: number;
+}
+
+async function readLegacyEntries(): Promise<unknown[] | null> {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    console.error("Failed to read legacy entries from localStorage", e);
+    return null;
+  }
+}
+
+interface RevisionChanges {
+  added: StoredRevision[];
+  removedIds: string[];
+}
+
+const NO_REVISION_CHANGES: RevisionChanges = { added: [], removedIds: [] };
+
+/**
+ * Writes the given entries (and their new images) and removes the given ids,
+ * all inside a single transaction so a failure leaves the store untouched.
+ */
+async function writeChanges(
+  prepared: PreparedEntry[],
+  removedIds: string[],
+  orphanImageIds: string[],
+  revisions: RevisionChanges = NO_REVISION_CHANGES
+): Promise<void> {
+  // Encryption is async, so everything is sealed before the transaction opens
+  const sealedEntries = await Promise.all(prepared.map(({ record }) => sealRecord(wrap(record))));
+  const sealedImages = await Promise.all(prepared.flatMap(({ newImages }) => newImages).map(sealImage));
+  const sealedRevisions = await Promise.all(revisions.added.map(sealRecord));
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.entries, STORES.images, STORES.revisions], 'readwrite');
+  const entryStore = tx.objectStore(STORES.entries);
+  const imageStore = tx.objectStore(STORES.images);
+  const revisionStore = tx.objectStore(STORES.revisions);
+
+  sealedImages.forEach(image => imageStore.put(image));
+  sealedEntries.forEach(record => entryStore.put(record));
+  removedIds.forEach(id => entryStore.delete(id));
+  sealedRevisions.forEach(record => revisionStore.put(record));
+  revisions.removedIds.forEach(id => revisionStore.delete(id));
+  orphanImageIds.forEach(id => imageStore.delete(id));
+
+  await transactionDone(tx);
+  // Only now are the blobs on disk; a failed write leaves them unknown so the next sync retries them
+  prepared.forEach(({ newUrls }) => newUrls.forEach((id, url) => registerImage(id, url)));
+}
+
+async function readImage(id: string): Promise<ImageRecord | undefined> {
+  const raw = await getRecord<unknown>(STORES.images, id);
+  return raw ? openImage(raw) : undefined;
+}
+
+async function hydrate(record: StoredEntry): Promise<DiaryEntry> {
+  const resolveUrl = async (id: string): Promise<string | null> => {
+    const cached = imageIdToUrl.get(id);
+    if (cached) return cached;
+    const image = await readImage(id);
+    if (!image) return null;
+    const url = URL.createObjectURL(image.blob);
+    registerImage(id, url);
+    return url;
+  };
+
+  const images: string[] = [];
+  for (const id of record.images || []) {
+    const url = await resolveUrl(id);
+    if (url) images.push(url);
+  }
+  const aiImage = record.aiImage ? (await resolveUrl(record.aiImage)) || undefined : undefined;
+  let voiceNotes: DiaryEntry['voiceNotes'];
+  if (record.voiceNotes) {
+    voiceNotes = [];
+    for (const note of record.voiceNotes) {
+      const url = await resolveUrl(note.url);
+      if (url) voiceNotes.push({ ...note, url });
+    }
+  }
+
+  return { ...record, images, aiImage, voiceNotes };
+}
+
+function toQuarantine(raw: unknown, errors: string[]): QuarantinedRecord {
+  return { id: crypto.randomUUID(), errors, quarantinedAt: new Date().toISOString(), raw };
+}
+
+/**
+ * Moves the first-generation localStorage payload into IndexedDB. Entries that
+ * fail validation go straight to quarantine; the old key is only cleared once
+ * everything has been written.
+ */
+async function migrateLegacyStorage(): Promise<void> {
+  const legacy = await readLegacyEntries();
+  if (!legacy || legacy.length === 0) return;
+
+  const valid: DiaryEntry[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  for (const raw of legacy) {
+    const result = readEnvelope<DiaryEntry>(raw);
+    if (result.value) valid.push(result.value);
+    else rejected.push(toQuarantine(raw, result.errors));
+  }
+
+  await writeChanges(await Promise.all(valid.map(toStoredEntry)), [], []);
+  if (rejected.length > 0) {
+    const sealed = await Promise.all(rejected.map(sealRecord));
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.quarantine, 'readwrite');
+    sealed.forEach(record => tx.objectStore(STORES.quarantine).put(record));
+    await transactionDone(tx);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+// Store key of a record whose contents could not be trusted
+function recordId(raw: unknown): string {
+  return typeof raw === 'object' && raw !== null && 'id' in raw && typeof raw.id === 'string' ? raw.id : '';
+}
+
+/**
+ * Loads every entry from IndexedDB, migrating records written with an older
+ * schema and setting aside any that cannot be read. On the very first run the
+ * legacy localStorage payload is moved over and the old key is cleared.
+ */
+export async function loadEntries(): Promise<LoadResult> {
+  let raws = await getAllRecords<unknown>(STORES.entries);
+  if (raws.length === 0) {
+    await migrateLegacyStorage();
+    raws = await getAllRecords<unknown>(STORES.entries);
+  }
+
+  const records: StoredEntry[] = [];
+  const upgraded: StoredEntry[] = [];
+  const rejected: { key: IDBValidKey; record: QuarantinedRecord }[] = [];
+
+  for (const sealed of raws) {
+    let raw: unknown;
+    try {
+      raw = await openRecord(sealed);
+    } catch (e) {
+      rejected.push({ key: recordId(sealed), record: toQuarantine(sealed, ["Could not be decrypted"]) });
+      continue;
+    }
+    const envelope = toEnvelope(raw);
+    const result = readEnvelope<StoredEntry>(raw);
+    if (result.value) {
+      records.push(result.value);
+      if (envelope.schemaVersion < CURRENT_SCHEMA_VERSION) upgraded.push(result.value);
+    } else {
+      rejected.push({ key: recordId(sealed), record: toQuarantine(raw, result.errors) });
+    }
+  }
+
+  if (upgraded.length > 0 || rejected.length > 0) {
+    const sealedUpgrades = await Promise.all(upgraded.map(record => sealRecord(wrap(record))));
+    const sealedRejects = await Promise.all(rejected.map(({ record }) => sealRecord(record)));
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.entries, STORES.quarantine], 'readwrite');
+    sealedUpgrades.forEach(record => tx.objectStore(STORES.entries).put(record));
+    rejected.forEach(({ key }) => tx.objectStore(STORES.entries).delete(key));
+    sealedRejects.forEach(record => tx.objectStore(STORES.quarantine).put(record));
+    await transactionDone(tx);
+  }
+
+  const entries = await Promise.all(records.map(hydrate));
+  persisted = new Map(entries.map(e => [e.id, e]));
+  revisionIndex = await loadRevisionIndex();
+  const quarantined = (await getAllRecords<unknown>(STORES.quarantine)).length;
+  return { entries, quarantined };
+}
+
+async function readRevision(raw: unknown): Promise<StoredRevision | null> {
+  try {
+    return await openRecord<StoredRevision>(raw);
+  } catch (e) {
+    console.error("Skipping unreadable revision", e);
+    return null;
+  }
+}
+
+async function loadRevisionIndex(): Promise<Map<string, RevisionRef[]>> {
+  const revisions = (await Promise.all((await getAllRecords<unknown>(STORES.revisions)).map(readRevision)))
+    .filter((r): r is StoredRevision => !!r)
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+
+  const index = new Map<string, RevisionRef[]>();
+  for (const revision of revisions) {
+    const refs = index.get(revision.entryId);
+    if (refs) refs.push(toRevisionRef(revision));
+    else index.set(revision.entryId, [toRevisionRef(revision)]);
+  }
+  return index;
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const raws = await getAllRecords<unknown>(STORES.quarantine);
+  return Promise.all(raws.map(raw => openRecord<QuarantinedRecord>(raw)));
+}
+
+export function discardQuarantinedRecord(id: string): Promise<void> {
+  return deleteRecord(STORES.quarantine, id);
+}
+
+/**
+ * Persists the current entry list, writing only records whose object identity
+ * changed since the last sync and deleting the ones that disappeared. Entries
+ * marked with `markRevision` also get a revision, and history outside the
+ * revision policy is pruned in the same transaction.
+ */
+export function syncEntries(entries: DiaryEntry[]): Promise<void> {
+  const run = async () => {
+    const current = new Map(entries.map(e => [e.id, e]));
+    const changed = entries.filter(e => persisted.get(e.id) !== e);
+    const removedIds = [...persisted.keys()].filter(id => !current.has(id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    // Images referenced by the previous versions of touched entries are candidates for cleanup
+    const candidates = new Set<string>();
+    changed.forEach(e => {
+      const previous = persisted.get(e.id);
+      if (previous) imageIdsOf(previous).forEach(id => candidates.add(id));
+    });
+    removedIds.forEach(id => imageIdsOf(persisted.get(id)!).forEach(imageId => candidates.add(imageId)));
+
+    // Resolve ids for images added since the last sync before deciding what is orphaned
+    const prepared = await Promise.all(changed.map(toStoredEntry));
+
+    const now = new Date();
+    const index = new Map(revisionIndex);
+    const revisions: RevisionChanges = { added: [], removedIds: [] };
+    const dropRevisions = (refs: RevisionRef[]) => refs.forEach(ref => {
+      revisions.removedIds.push(ref.id);
+      ref.imageIds.forEach(id => candidates.add(id));
+    });
+
+    for (const { record } of prepared) {
+      if (!pendingRevisions.has(record.id)) continue;
+      const refs = [...(index.get(record.id) || [])];
+      const previous = persisted.get(record.id);
+      if (refs.length === 0 && previous) {
+        // Entries written before history existed keep their last version, dated when the entry was
+        const original = toRevision((await toStoredEntry(previous)).record, previous.date);
+        revisions.added.push(original);
+        refs.push(toRevisionRef(original));
+      }
+      const revision = toRevision(record, now.toISOString());
+      revisions.added.push(revision);
+      refs.push(toRevisionRef(revision));
+
+      const pruned = prunable(refs, now.getTime());
+      dropRevisions(pruned);
+      index.set(record.id, refs.filter(ref => !pruned.includes(ref)));
+    }
+    removedIds.forEach(id => {
+      dropRevisions(index.get(id) || []);
+      index.delete(id);
+    });
+
+    const stillReferenced = new Set([...entries.flatMap(imageIdsOf), ...allRevisionImageIds(index)]);
+    const orphans = [...candidates].filter(id => !stillReferenced.has(id));
+    // Revisions added and pruned in the same pass never need to reach the store
+    const addedIds = new Set(revisions.added.map(r => r.id));
+    const write: RevisionChanges = {
+      added: revisions.added.filter(r => !revisions.removedIds.includes(r.id)),
+      removedIds: revisions.removedIds.filter(id => !addedIds.has(id)),
+    };
+
+    await writeChanges(prepared, removedIds, orphans, write);
+
+    persisted = current;
+    revisionIndex = index;
+    prepared.forEach(({ record }) => pendingRevisions.delete(record.id));
+    orphans.forEach(forgetImage);
+  };
+
+  const next = writeQueue.then(run);
+  // Keep the queue alive after a failure so later syncs still run
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Asks the next sync to record a revision of the entry, e.g. after the user
+ * saves it from the editor.
+ */
+export function markRevision(entryId: string) {
+  pendingRevisions.add(entryId);
+}
+
+/**
+ * Replaces the revision policy and prunes existing history to match it.
+ */
+export function setRevisionPolicy(policy: RevisionPolicy): Promise<void> {
+  revisionPolicy = policy;
+  return runAfterPendingWrites(async () => {
+    const now = Date.now();
+    const index = new Map(revisionIndex);
+    const removedIds: string[] = [];
+    const candidates = new Set<string>();
+    index.forEach((refs, entryId) => {
+      const pruned = prunable(refs, now);
+      if (pruned.length === 0) return;
+      pruned.forEach(ref => {
+        removedIds.push(ref.id);
+        ref.imageIds.forEach(id => candidates.add(id));
+      });
+      index.set(entryId, refs.filter(ref => !pruned.includes(ref)));
+    });
+    if (removedIds.length === 0) return;
+
+    const stillReferenced = new Set([...[...persisted.values()].flatMap(imageIdsOf), ...allRevisionImageIds(index)]);
+    const orphans = [...candidates].filter(id => !stillReferenced.has(id));
+    await writeChanges([], [], orphans, { added: [], removedIds });
+    revisionIndex = index;
+    orphans.forEach(forgetImage);
+  });
+}
+
+/**
+ * Every saved version of an entry, newest first, with images ready to display.
+ */
+export async function loadRevisions(entryId: string): Promise<EntryRevision[]> {
+  const refs = revisionIndex.get(entryId) || [];
+  const revisions: EntryRevision[] = [];
+  for (const ref of [...refs].reverse()) {
+    const raw = await getRecord<unknown>(STORES.revisions, ref.id);
+    const revision = raw ? await readRevision(raw) : null;
+    if (!revision) continue;
+    const result = readEnvelope<StoredEntry>(revision.entry);
+    if (!result.value) continue;
+    revisions.push({ id: revision.id, entryId, savedAt: revision.savedAt, entry: await hydrate(result.value) });
+  }
+  return revisions;
+}
+
+export interface StorageUsage {
+  images: { count: number; bytes: number }; // photos and AI images
+  audio: { count: number; bytes: number };
+  used?: number; // everything this site stores, as reported by the browser
+  quota?: number;
+}
+
+/**
+ * How much space photos and voice notes take up. Works while locked, since
+ * sizes are read without decrypting anything.
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const usage: StorageUsage = { images: { count: 0, bytes: 0 }, audio: { count: 0, bytes: 0 } };
+  for (const raw of await getAllRecords<unknown>(STORES.images)) {
+    const { type, size } = blobRecordInfo(raw);
+    const bucket = type.startsWith('audio/') ? usage.audio : usage.images;
+    bucket.count++;
+    bucket.bytes += size;
+  }
+  try {
+    const estimate = await navigator.storage?.estimate();
+    usage.used = estimate?.usage;
+    usage.quota = estimate?.quota;
+  } catch (e) {
+    console.error("Storage estimate unavailable", e);
+  }
+  return usage;
+}
+
+/**
+ * Returns the raw bytes behind an image or voice note URL handed out by this
+ * module.
+ */
+export async function getImageBlob(url: string): Promise<Blob> {
+  const id = urlToImageId.get(url);
+  if (id) {
+    const image = await readImage(id);
+    if (image) return image.blob;
+  }
+  return urlToBlob(url);
+}
+
+/**
+ * Runs a task once all queued writes have finished, holding back later writes
+ * until it completes. Used for whole-database operations such as re-keying.
+ */
+export function runAfterPendingWrites<T>(task: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(task);
+  writeQueue = next.then(() => undefined, () => undefined);
+  return next;
+}
+
+/**
+ * Drops every decrypted entry and image URL held in memory, e.g. on lock.
+ */
+export function clearStorageCache() {
+  [...imageIdToUrl.keys()].forEach(forgetImage);
+  persisted = new Map();
+  revisionIndex = new Map();
+  pendingRevisions.clear();
+}
@@ -0,0 +1,250 @@
+import { addMonths, addQuarters, addYears, format, isValid, startOfMonth, startOfQuarter, startOfYear } from 'date-fns';
+import { DiaryEntry, SummaryScope, ThreadSummary } from '../types';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './db';
+import { openRecord, sealRecord } from './vaultService';
+import { AIResult, combineSummaries, generateSummary } from './aiService';
+import { canSendToAI } from './privacyService';
+import { toPlainText } from './markdownService';
+
+/**
+ * Summaries of a chosen stretch of the diary. Short ranges go to the model in
+ * one prompt; longer ones are summarized month by month and the monthly
+ * summaries are then combined, so the prompt never outgrows the context window.
+ */
+
+// Rough prompt budget per request, in characters
+const CHUNK_CHARS = 12000;
+// A single very long entry is cut so it cannot fill a chunk on its own
+const MAX_ENTRY_CHARS = 4000;
+
+export interface SummaryRange {
+  scope: SummaryScope;
+  start: Date; // inclusive
+  end: Date; // exclusive
+  tag?: string;
+  label: string;
+}
+
+// What the user picked in the range selector; only the fields for `scope` are read
+export interface RangeSelection {
+  scope: SummaryScope;
+  month: string; // "yyyy-MM"
+  year: number;
+  quarter: number; // 1-4
+  from: string; // "yyyy-MM-dd"
+  to: string; // "yyyy-MM-dd", inclusive
+  tag: string;
+}
+
+function entryTime(entry: DiaryEntry): number {
+  return new Date(entry.date).getTime();
+}
+
+function labelFor(scope: SummaryScope, start: Date, end: Date, tag?: string): string {
+  switch (scope) {
+    case 'month':
+      return format(start, 'MMMM yyyy');
+    case 'quarter':
+      return format(start, 'QQQ yyyy');
+    case 'year':
+      return format(start, 'yyyy');
+    case 'tag':
+      return `#${tag}`;
+    default: {
+      const last = new Date(end.getTime() - 1);
+      return `${format(start, 'MMM d, yyyy')} – ${format(last, 'MMM d, yyyy')}`;
+    }
+  }
+}
+
+/**
+ * Turns the selector state into a concrete range, or null when it is
+ * incomplete. A tag range spans every entry carrying that tag.
+ */
+export function buildRange(selection: RangeSelection, entries: DiaryEntry[]): SummaryRange | null {
+  const { scope } = selection;
+  let start: Date;
+  let end: Date;
+
+  if (scope === 'month') {
+    start = startOfMonth(new Date(`${selection.month}-01T00:00:00`));
+    end = addMonths(start, 1);
+  } else if (scope === 'quarter') {
+    start = startOfQuarter(new Date(selection.year, (selection.quarter - 1) * 3, 1));
+    end = addQuarters(start, 1);
+  } else if (scope === 'year') {
+    start = startOfYear(new Date(selection.year, 0, 1));
+    end = addYears(start, 1);
+  } else if (scope === 'custom') {
+    start = new Date(`${selection.from}T00:00:00`);
+    end = new Date(`${selection.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+  } else {
+    if (!selection.tag) return null;
+    const times = entries.filter(e => (e.tags || []).includes(selection.tag)).map(entryTime).filter(t => !isNaN(t));
+    if (times.length === 0) return null;
+    start = new Date(Math.min(...times));
+    end = new Date(Math.max(...times) + 1);
+  }
+
+  if (!isValid(start) || !isValid(end) || end <= start) return null;
+  const tag = scope === 'tag' ? selection.tag : undefined;
+  return { scope, start, end, tag, label: labelFor(scope, start, end, tag) };
+}
+
+// The range a saved summary was made for, so it can be regenerated
+export function rangeOf(summary: ThreadSummary): SummaryRange {
+  return {
+    scope: summary.scope,
+    start: new Date(summary.start),
+    end: new Date(summary.end),
+    tag: summary.tag,
+    label: summary.title,
+  };
+}
+
+export function entriesInRange(entries: DiaryEntry[], range: SummaryRange): DiaryEntry[] {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  return entries
+    .filter(e => {
+      if (range.tag) return (e.tags || []).includes(range.tag);
+      const time = entryTime(e);
+      return time >= start && time < end;
+    })
+    .sort((a, b) => entryTime(a) - entryTime(b));
+}
+
+function entryLine(entry: DiaryEntry): string {
+  const d = new Date(entry.date);
+  const day = isValid(d) ? format(d, 'yyyy-MM-dd') : entry.date;
+  const text = toPlainText(entry.content);
+  const content = text.length > MAX_ENTRY_CHARS ? `${text.slice(0, MAX_ENTRY_CHARS)}…` : text;
+  return `${day}: ${content}`;
+}
+
+// Splits texts into consecutive batches that each fit the prompt budget
+function chunk(texts: string[]): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const text of texts) {
+    if (current.length > 0 && size + text.length > CHUNK_CHARS) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(text);
+    size += text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function totalLength(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + text.length, 0);
+}
+
+// Combines partial summaries until one is left, batching when they do not fit one prompt
+async function reduceSummaries(parts: string[], period: string): Promise<AIResult<string>> {
+  while (parts.length > 1) {
+    const batches = totalLength(parts) > CHUNK_CHARS ? chunk(parts) : [parts];
+    const next: string[] = [];
+    for (const batch of batches) {
+      if (batch.length === 1) {
+        next.push(batch[0]);
+        continue;
+      }
+      const result = await combineSummaries(batch, period);
+      if (result.status !== 'success') return result;
+      next.push(result.value);
+    }
+    // Every batch held a single oversized summary; combining cannot shrink them further
+    if (next.length === parts.length) return combineSummaries(next, period);
+    parts = next;
+  }
+  return { status: 'success', value: parts[0] };
+}
+
+async function summarizeLines(lines: string[], period: string): Promise<AIResult<string>> {
+  const batches = chunk(lines);
+  if (batches.length === 1) return generateSummary(lines, period);
+
+  const partials: string[] = [];
+  for (const batch of batches) {
+    const result = await generateSummary(batch, period);
+    if (result.status !== 'success') return result;
+    partials.push(result.value);
+  }
+  return reduceSummaries(partials, period);
+}
+
+/**
+ * Summarizes the entries of a range. `onProgress` receives a short status line
+ * while a long range is worked through month by month.
+ */
+export async function summarizeRange(
+  entries: DiaryEntry[],
+  range: SummaryRange,
+  onProgress?: (message: string) => void
+): Promise<AIResult<string>> {
+  // Private entries are left out of what the AI reads
+  const selected = entriesInRange(entries, range).filter(canSendToAI);
+  if (selected.length === 0) {
+    return { status: 'disabled', message: "Every entry in this range is private, so there is nothing to summarize." };
+  }
+  const lines = selected.map(entryLine);
+  if (totalLength(lines) <= CHUNK_CHARS) {
+    onProgress?.(`Summarizing ${range.label}...`);
+    return generateSummary(lines, range.label);
+  }
+
+  const months = new Map<string, string[]>();
+  selected.forEach((entry, idx) => {
+    const d = new Date(entry.date);
+    const key = isValid(d) ? format(d, 'MMMM yyyy') : 'Undated';
+    const list = months.get(key);
+    if (list) list.push(lines[idx]);
+    else months.set(key, [lines[idx]]);
+  });
+
+  const monthly: string[] = [];
+  let done = 0;
+  for (const [month, monthLines] of months) {
+    onProgress?.(`Summarizing ${month} (${++done} of ${months.size})...`);
+    const result = await summarizeLines(monthLines, month);
+    if (result.status !== 'success') return result;
+    monthly.push(`${month}: ${result.value}`);
+  }
+
+  onProgress?.(`Combining ${months.size} months...`);
+  return reduceSummaries(monthly, range.label);
+}
+
+export function createSummaryRecord(range: SummaryRange, content: string, entryCount: number, id: string = crypto.randomUUID()): ThreadSummary {
+  return {
+    id,
+    title: range.label,
+    scope: range.scope,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    tag: range.tag,
+    content,
+    entryCount,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export async function loadSummaries(): Promise<ThreadSummary[]> {
+  const raws = await getAllRecords<unknown>(STORES.summaries);
+  const summaries = await Promise.all(raws.map(raw => openRecord<ThreadSummary>(raw)));
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveSummary(summary: ThreadSummary): Promise<void> {
+  await putRecord(STORES.summaries, await sealRecord(summary));
+}
+
+export function deleteSummary(id: string): Promise<void> {
+  return deleteRecord(STORES.summaries, id);
+}
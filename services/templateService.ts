@@ -0,0 +1,102 @@
+import { PromptKind, PromptSettings, PromptTemplate, TemplateRef } from '../types';
+import { PromptStyle } from './aiProvider';
+
+/**
+ * Reflection personas and image styles. The built-in ones can be edited like
+ * any other template; the one picked in settings is used for every new
+ * reflection, and the entry keeps a reference to it.
+ */
+
+export const TEMPLATE_PLACEHOLDERS = ['{date}', '{content}'];
+
+const builtIn = (id: string, kind: PromptKind, name: string, text: string): PromptTemplate => ({ id, kind, name, text, builtIn: true });
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  builtIn('reflection-poetic', 'reflection', "Poetic",
+    `You are a thoughtful diary assistant. Here is a journal entry from {date}: "{content}". Please provide a short (2-3 sentences) poetic or insightful reflection on this moment. Be warm and supportive.`),
+  builtIn('reflection-coach', 'reflection', "Coach",
+    `You are an encouraging coach reading a journal entry from {date}: "{content}". In 2-3 sentences, name one strength the entry shows and suggest one small, concrete next step. Be upbeat but not pushy.`),
+  builtIn('reflection-questions', 'reflection', "Gentle questions",
+    `You are a calm, therapist-style listener. Here is a journal entry from {date}: "{content}". Do not give advice or interpret. Reply with two or three open, caring questions that help the writer explore how they feel about it.`),
+  builtIn('reflection-gratitude', 'reflection', "Gratitude",
+    `Here is a journal entry from {date}: "{content}". In 2-3 sentences, point out what in it the writer could be grateful for, including small things they may have passed over. Be warm and sincere, never preachy.`),
+  builtIn('reflection-stoic', 'reflection', "Stoic",
+    `You are a Stoic philosopher in the spirit of Epictetus and Marcus Aurelius. Here is a journal entry from {date}: "{content}". In 2-3 calm sentences, separate what was within the writer's control from what was not, and offer a Stoic perspective on it.`),
+  builtIn('reflection-summary', 'reflection', "Plain summary",
+    `Summarize this journal entry from {date} in one or two plain, factual sentences, without interpretation or advice: "{content}"`),
+  builtIn('image-watercolor', 'image', "Dreamy watercolor",
+    `An artistic, dreamy, nostalgic illustration representing: {content}. High quality, soft lighting, evocative colors, watercolor and digital oil paint style. No text, no faces.`),
+  builtIn('image-ink', 'image', "Ink sketch",
+    `A loose pen and ink sketch of: {content}. Fine linework, a light wash of color, plenty of white space, like a page from a travel sketchbook. No text, no faces.`),
+  builtIn('image-film', 'image', "Film photo",
+    `A candid photograph of: {content}. Natural light, shallow depth of field, 35mm film grain, muted colors. No text, no faces.`),
+  builtIn('image-abstract', 'image', "Minimal abstract",
+    `A minimal abstract composition evoking: {content}. Simple geometric shapes, flat colors, calm balance, modern poster style. No text.`),
+  builtIn('image-pixel', 'image', "Pixel art",
+    `A cozy pixel art scene of: {content}. 16-bit style, limited palette, soft dithering. No text.`),
+];
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  templates: BUILT_IN_TEMPLATES,
+  reflectionTemplateId: 'reflection-poetic',
+  imageTemplateId: 'image-watercolor',
+  language: '',
+};
+
+let prompts: PromptSettings = DEFAULT_PROMPT_SETTINGS;
+
+const isTemplate = (v: unknown): v is PromptTemplate => typeof v === 'object' && v !== null
+  && 'id' in v && typeof v.id === 'string'
+  && 'kind' in v && (v.kind === 'reflection' || v.kind === 'image')
+  && 'name' in v && typeof v.name === 'string'
+  && 'text' in v && typeof v.text === 'string';
+
+/**
+ * Saved templates plus any built-in ones added since they were saved.
+ */
+export function withBuiltInTemplates(saved: unknown): PromptTemplate[] {
+  if (!Array.isArray(saved)) return BUILT_IN_TEMPLATES;
+  const templates = saved.filter(isTemplate);
+  const missing = BUILT_IN_TEMPLATES.filter(b => !templates.some(t => t.id === b.id));
+  return [...templates, ...missing];
+}
+
+export function configurePrompts(settings: PromptSettings) {
+  prompts = settings;
+}
+
+export function templatesOf(templates: PromptTemplate[], kind: PromptKind): PromptTemplate[] {
+  return templates.filter(t => t.kind === kind);
+}
+
+// The template picked in settings, falling back to the first of its kind
+export function getActiveTemplate(kind: PromptKind, settings: PromptSettings = prompts): PromptTemplate {
+  const id = kind === 'reflection' ? settings.reflectionTemplateId : settings.imageTemplateId;
+  return settings.templates.find(t => t.id === id && t.kind === kind)
+    || templatesOf(settings.templates, kind)[0]
+    || BUILT_IN_TEMPLATES.find(t => t.kind === kind)!;
+}
+
+export function promptStyle(template: PromptTemplate): PromptStyle {
+  return { template: template.text, language: template.kind === 'reflection' ? prompts.language.trim() : '' };
+}
+
+export function templateRef(template: PromptTemplate): TemplateRef {
+  return { id: template.id, name: template.name };
+}
+
+export function createTemplate(kind: PromptKind, from?: PromptTemplate): PromptTemplate {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    name: from ? `${from.name} (copy)` : kind === 'reflection' ? "New persona" : "New style",
+    text: from?.text || (kind === 'reflection'
+      ? `Here is a journal entry from {date}: "{content}". Reflect on it in 2-3 sentences.`
+      : `An illustration of: {content}. No text.`),
+  };
+}
+
+// The shipped text of a built-in template, for resetting an edited one
+export function originalTemplate(id: string): PromptTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find(t => t.id === id);
+}
@@ -0,0 +1,43 @@
+import { DiaryEntry } from '../types';
+
+/**
+ * Deleted entries are kept, marked with `deletedAt`, until they are restored,
+ * purged by hand or pass the retention period. They stay in the same store so
+ * their images and links survive a restore.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashed(entry: DiaryEntry): boolean {
+  return !!entry.deletedAt;
+}
+
+export function moveToTrash(entry: DiaryEntry, now = new Date()): DiaryEntry {
+  return { ...entry, deletedAt: now.toISOString() };
+}
+
+export function restoreFromTrash(entry: DiaryEntry): DiaryEntry {
+  const { deletedAt, ...restored } = entry;
+  return restored;
+}
+
+/**
+ * Whole days left before a trashed entry is purged, or null when the trash is
+ * kept forever (a retention of 0).
+ */
+export function daysUntilPurge(entry: DiaryEntry, retentionDays: number, now = new Date()): number | null {
+  if (!entry.deletedAt || retentionDays <= 0) return null;
+  const expires = new Date(entry.deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((expires - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Drops trashed entries older than the retention period. Returns the same
+ * array when nothing expired, so callers can skip a state update.
+ */
+export function purgeExpired(entries: DiaryEntry[], retentionDays: number, now = new Date()): DiaryEntry[] {
+  if (retentionDays <= 0) return entries;
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const kept = entries.filter(e => !e.deletedAt || new Date(e.deletedAt).getTime() > cutoff);
+  return kept.length === entries.length ? entries : kept;
+}
@@ -0,0 +1,221 @@
+import { STORES, StoreName, ImageRecord, openDatabase, getAllRecords, getRecord, transactionDone } from './db';
+import {
+  EncryptedPayload,
+  KdfParams,
+  createKdfParams,
+  decryptBytes,
+  decryptJson,
+  deriveKey,
+  encryptBytes,
+  encryptJson,
+} from './cryptoService';
+
+/**
+ * Optional passphrase lock for everything the diary keeps in IndexedDB.
+ *
+ * While the vault is enabled, records in the sensitive stores are written as
+ * `{ id, sealed }` with the real record AES-GCM encrypted inside. Only the
+ * record ids stay readable, since IndexedDB needs them as keys. Writes made
+ * while the diary is locked fail instead of falling back to plaintext.
+ */
+
+const VAULT_ID = 'vault';
+const VERIFIER_TEXT = 'lifethreads-vault';
+
+// Stores whose records are sealed as JSON / as binary image data
+const SEALED_JSON_STORES: StoreName[] = [STORES.entries, STORES.quarantine, STORES.summaries, STORES.revisions, STORES.drafts];
+const SEALED_BLOB_STORES: StoreName[] = [STORES.images];
+
+interface VaultRecord {
+  id: typeof VAULT_ID;
+  kdf: KdfParams;
+  verifier: EncryptedPayload;
+}
+
+interface SealedRecord {
+  id: string;
+  sealed: EncryptedPayload;
+}
+
+interface SealedImageRecord extends SealedRecord {
+  type: string;
+}
+
+let activeKey: CryptoKey | null = null;
+
+// Whether a vault exists, separate from whether it is unlocked; null until first checked
+let vaultEnabled: boolean | null = null;
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("The diary is locked.");
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class UnsealedRecordError extends Error {
+  constructor() {
+    super("Found an unencrypted record in an encrypted diary.");
+    this.name = 'UnsealedRecordError';
+  }
+}
+
+function isSealed(raw: unknown): raw is SealedRecord {
+  return !!raw && typeof raw === 'object' && 'sealed' in raw;
+}
+
+async function sealWith<T extends { id: string }>(key: CryptoKey | null, record: T): Promise<T | SealedRecord> {
+  if (!key) return record;
+  return { id: record.id, sealed: await encryptJson(key, record) };
+}
+
+async function openWith<T>(key: CryptoKey | null, raw: unknown): Promise<T> {
+  if (!isSealed(raw)) return raw as T;
+  if (!key) throw new VaultLockedError();
+  return decryptJson<T>(key, raw.sealed);
+}
+
+async function sealImageWith(key: CryptoKey | null, image: ImageRecord): Promise<ImageRecord | SealedImageRecord> {
+  if (!key) return image;
+  return { id: image.id, type: image.blob.type, sealed: await encryptBytes(key, await image.blob.arrayBuffer()) };
+}
+
+async function openImageWith(key: CryptoKey | null, raw: unknown): Promise<ImageRecord> {
+  if (!isSealed(raw)) return raw as ImageRecord;
+  if (!key) throw new VaultLockedError();
+  const bytes = await decryptBytes(key, raw.sealed);
+  return { id: raw.id, blob: new Blob([bytes], { type: (raw as SealedImageRecord).type }) };
+}
+
+async function checkVaultEnabled(): Promise<boolean> {
+  return vaultEnabled ?? isVaultEnabled();
+}
+
+// The key to write with; null only while encryption is off, never just because the diary is locked
+async function sealingKey(): Promise<CryptoKey | null> {
+  if (activeKey) return activeKey;
+  if (await checkVaultEnabled()) throw new VaultLockedError();
+  return null;
+}
+
+// Plaintext in a sealed store is only expected while encryption is off
+async function rejectUnsealed(raw: unknown): Promise<void> {
+  if (!isSealed(raw) && await checkVaultEnabled()) throw new UnsealedRecordError();
+}
+
+export async function sealRecord<T extends { id: string }>(record: T) {
+  return sealWith(await sealingKey(), record);
+}
+
+export async function openRecord<T>(raw: unknown): Promise<T> {
+  await rejectUnsealed(raw);
+  return openWith<T>(activeKey, raw);
+}
+
+export async function sealImage(image: ImageRecord) {
+  return sealImageWith(await sealingKey(), image);
+}
+
+export async function openImage(raw: unknown): Promise<ImageRecord> {
+  await rejectUnsealed(raw);
+  return openImageWith(activeKey, raw);
+}
+
+/**
+ * Type and size of a stored blob, readable without the key.
+ */
+export function blobRecordInfo(raw: unknown): { type: string; size: number } {
+  if (isSealed(raw)) return { type: (raw as SealedImageRecord).type || '', size: raw.sealed.data.byteLength };
+  const blob = (raw as ImageRecord)?.blob;
+  return { type: blob?.type || '', size: blob?.size || 0 };
+}
+
+export async function isVaultEnabled(): Promise<boolean> {
+  vaultEnabled = !!(await getRecord<VaultRecord>(STORES.meta, VAULT_ID));
+  return vaultEnabled;
+}
+
+export function isVaultUnlocked(): boolean {
+  return activeKey !== null;
+}
+
+async function keyFromVault(vault: VaultRecord, passphrase: string): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, vault.kdf);
+  await decryptBytes(key, vault.verifier); // throws InvalidPassphraseError on mismatch
+  return key;
+}
+
+async function createVault(passphrase: string): Promise<{ vault: VaultRecord; key: CryptoKey }> {
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  const verifier = await encryptBytes(key, new TextEncoder().encode(VERIFIER_TEXT));
+  return { vault: { id: VAULT_ID, kdf, verifier }, key };
+}
+
+/**
+ * Re-reads every sensitive record with `from` and writes it back with `to`
+ * (either may be null for plaintext), together with the new vault record, in
+ * a single transaction.
+ */
+async function rewriteStores(from: CryptoKey | null, to: CryptoKey | null, vault: VaultRecord | null): Promise<void> {
+  const jsonBatches = await Promise.all(SEALED_JSON_STORES.map(async store => {
+    const raws = await getAllRecords<unknown>(store);
+    const records = await Promise.all(raws.map(async raw => sealWith(to, await openWith<{ id: string }>(from, raw))));
+    return { store, records };
+  }));
+  const blobBatches = await Promise.all(SEALED_BLOB_STORES.map(async store => {
+    const raws = await getAllRecords<unknown>(store);
+    const records = await Promise.all(raws.map(async raw => sealImageWith(to, await openImageWith(from, raw))));
+    return { store, records };
+  }));
+
+  const db = await openDatabase();
+  const stores = [...SEALED_JSON_STORES, ...SEALED_BLOB_STORES, STORES.meta];
+  const tx = db.transaction(stores, 'readwrite');
+  for (const { store, records } of [...jsonBatches, ...blobBatches]) {
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    records.forEach(record => objectStore.put(record));
+  }
+  if (vault) tx.objectStore(STORES.meta).put(vault);
+  else tx.objectStore(STORES.meta).delete(VAULT_ID);
+  await transactionDone(tx);
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const vault = await getRecord<VaultRecord>(STORES.meta, VAULT_ID);
+  if (!vault) throw new Error("Encryption is not enabled.");
+  activeKey = await keyFromVault(vault, passphrase);
+  vaultEnabled = true;
+}
+
+export function lockVault() {
+  activeKey = null;
+}
+
+export async function enableVault(passphrase: string): Promise<void> {
+  if (await isVaultEnabled()) throw new Error("Encryption is already enabled.");
+  const { vault, key } = await createVault(passphrase);
+  await rewriteStores(null, key, vault);
+  activeKey = key;
+  vaultEnabled = true;
+}
+
+export async function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  const vault = await getRecord<VaultRecord>(STORES.meta, VAULT_ID);
+  if (!vault) throw new Error("Encryption is not enabled.");
+  const oldKey = await keyFromVault(vault, current);
+  const { vault: nextVault, key } = await createVault(next);
+  await rewriteStores(oldKey, key, nextVault);
+  activeKey = key;
+}
+
+export async function disableVault(passphrase: string): Promise<void> {
+  const vault = await getRecord<VaultRecord>(STORES.meta, VAULT_ID);
+  vaultEnabled = !!vault;
+  if (!vault) return;
+  const key = await keyFromVault(vault, passphrase);
+  await rewriteStores(key, null, null);
+  activeKey = null;
+  vaultEnabled = false;
+}
@@ -3,14 +3,188 @@ export interface DiaryEntry {
   id: string;
   content: string;
   date: string; // ISO string
-  images: string[]; // Base64 strings
+  images: string[]; // Displayable URLs (object URLs from storage or freshly optimized data URLs)
   mood?: string;
   tags?: string[];
   aiReflection?: string;
-  aiImage?: string; // New: AI generated visual reflection
+  aiImage?: string; // AI generated visual reflection, same URL form as images
+  aiReflectionTemplate?: TemplateRef; // the templates that produced aiReflection and aiImage
+  aiImageTemplate?: TemplateRef;
+  links?: string[]; // ids of other entries this one refers to
+  threads?: string[]; // names of the threads this entry belongs to
+  deletedAt?: string; // ISO string, set while the entry is in the trash
+  photoInfo?: (PhotoInfo | null)[]; // same order as images; null where nothing is known
+  voiceNotes?: VoiceNote[];
+  location?: EntryLocation;
+  people?: string[]; // named people, places and events the entry mentions
+  places?: string[];
+  events?: string[];
+  enrichment?: EntryEnrichment; // AI suggestions, until accepted or dismissed
+  isPrivate?: boolean; // never sent to the AI
+}
+
+// Metadata the AI suggested for an entry
+export interface EntryEnrichment {
+  mood?: string;
+  tags: string[];
+  people: string[];
+  places: string[];
+  events: string[];
+  analyzedAt: string; // ISO string
+  contentHash: string; // of the text that was analyzed, to tell when it has changed since
+  dismissed?: boolean;
+}
+
+export type LocationSource = 'device' | 'photo' | 'manual';
+
+// Where an entry was written. Places typed by hand may have no coordinates.
+export interface EntryLocation {
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+  source: LocationSource;
+}
+
+// A recorded audio clip attached to an entry
+export interface VoiceNote {
+  id: string;
+  url: string; // same URL form as images
+  recordedAt: string; // ISO string
+  durationMs: number;
+  transcript?: string;
+}
+
+// Details kept from a photo's own metadata when it was added
+export interface PhotoInfo {
+  takenAt?: string; // ISO capture time
+  camera?: string;
+  width: number;
+  height: number;
+}
+
+// A stored record that failed migration or validation, kept aside instead of being dropped
+export interface QuarantinedRecord {
+  id: string;
+  errors: string[];
+  quarantinedAt: string; // ISO string
+  raw: unknown;
+}
+
+// Unsaved editor state, kept so a long entry survives closing the editor or a crash
+export interface EntryDraft {
+  id: string;
+  entryId?: string; // set when the draft edits an existing entry
+  updatedAt: string; // ISO string
+  data: Omit<DiaryEntry, 'id' | 'deletedAt'>; // images are data URLs so they survive a reload
+}
+
+// One saved version of an entry
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  savedAt: string; // ISO string
+  entry: DiaryEntry;
+}
+
+export type SummaryScope = 'month' | 'quarter' | 'year' | 'custom' | 'tag';
+
+// A generated summary of a stretch of the diary, kept so it can be revisited
+export interface ThreadSummary {
+  id: string;
+  title: string;
+  scope: SummaryScope;
+  start: string; // ISO string, inclusive
+  end: string; // ISO string, exclusive
+  tag?: string; // set when scope is 'tag'
+  content: string;
+  entryCount: number;
+  createdAt: string; // ISO string
+}
+
+export type PromptKind = 'reflection' | 'image';
+
+// A user-editable prompt; `{date}` and `{content}` are filled in when it is sent
+export interface PromptTemplate {
+  id: string;
+  kind: PromptKind;
+  name: string;
+  text: string;
+  builtIn?: boolean; // ships with the app: can be edited and reset, but not deleted
+}
+
+// Names a template on an entry, so the name survives the template being deleted
+export interface TemplateRef {
+  id: string;
+  name: string;
 }
 
 export interface UserSettings {
   userName: string;
   avatar: string;
 }
+
+export type TimelineView = 'list' | 'calendar' | 'heatmap' | 'map' | 'insights';
+
+export type AIProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  geminiTextModel: string;
+  geminiImageModel: string;
+  openAIBaseUrl: string; // e.g. http://localhost:11434/v1 for a local model server
+  openAIApiKey: string;
+  openAIModel: string;
+  openAIImageModel: string; // empty disables image generation
+  openAIAudioModel: string; // speech-to-text model; empty disables transcription
+}
+
+export interface RevisionPolicy {
+  maxPerEntry: number; // 0 keeps every revision
+  maxAgeDays: number; // 0 keeps revisions regardless of age
+}
+
+export type ImageFormat = 'jpeg' | 'webp' | 'avif';
+
+// How added photos are resized and re-encoded
+export interface ImageSettings {
+  format: ImageFormat; // falls back to JPEG where the browser cannot encode it
+  maxDimension: number; // longest side, in pixels
+  quality: number; // 0-1
+}
+
+export type GeocoderKind = 'offline' | 'nominatim';
+
+export interface LocationSettings {
+  geocoder: GeocoderKind; // turns coordinates into place names and back
+  mapTiles: boolean; // load OpenStreetMap tiles behind the map; off keeps the map fully offline
+}
+
+export interface EnrichmentSettings {
+  analyzeOnSave: boolean;
+  requestsPerMinute: number; // pace of the background back-fill
+}
+
+export interface PrivacySettings {
+  aiEnabled: boolean; // off blocks every request to the AI provider
+  redact: boolean; // mask names, emails, phone numbers and addresses in prompts
+}
+
+export interface PromptSettings {
+  templates: PromptTemplate[];
+  reflectionTemplateId: string;
+  imageTemplateId: string;
+  language: string; // reflections are written in it; empty follows the entry
+}
+
+export interface AppSettings {
+  autoLockMinutes: number; // 0 disables auto-lock
+  timelineView: TimelineView;
+  trashRetentionDays: number; // 0 keeps deleted entries until purged by hand
+  revisions: RevisionPolicy;
+  images: ImageSettings;
+  location: LocationSettings;
+  enrichment: EnrichmentSettings;
+  privacy: PrivacySettings;
+  prompts: PromptSettings;
+  ai: AIProviderSettings;
+}